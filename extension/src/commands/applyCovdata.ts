@@ -0,0 +1,66 @@
+/*---------------------------------------------------------
+ * Copyright 2024 The Go Authors. All rights reserved.
+ * Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------*/
+
+import * as cp from 'child_process';
+import * as util from 'util';
+import * as vscode from 'vscode';
+
+import { CommandFactory } from '.';
+import { applyCodeCoverageToAllEditors } from '../goCover';
+import { toolExecutionEnvironment } from '../goEnv';
+import { getFromWorkspaceState, updateWorkspaceState } from '../stateUtils';
+import { getBinPath, getTempFilePath, getWorkspaceFolderPath } from '../util';
+
+let covdataID = 0;
+
+// applyCovdata applies the coverage data written to one or more GOCOVERDIR
+// directories by binaries built with `go build -cover`. The directories are
+// merged and converted to a text cover profile with `go tool covdata textfmt`.
+export const applyCovdata: CommandFactory = () => {
+	return async () => {
+		const lastCovdataDirKey = 'lastCovdataDirKey';
+		const lastCovdataDir = getFromWorkspaceState(lastCovdataDirKey, '');
+		const dirs = await vscode.window.showOpenDialog({
+			canSelectFiles: false,
+			canSelectFolders: true,
+			canSelectMany: true,
+			defaultUri: lastCovdataDir ? vscode.Uri.file(lastCovdataDir) : undefined,
+			openLabel: 'Apply Coverage',
+			title: 'Select the coverage data directories (GOCOVERDIR)'
+		});
+		if (!dirs || dirs.length === 0) {
+			return;
+		}
+		updateWorkspaceState(lastCovdataDirKey, dirs[0].fsPath);
+
+		const workspaceDir = getWorkspaceFolderPath(vscode.window.activeTextEditor?.document.uri ?? dirs[0]);
+		const coverProfilePath = getTempFilePath(`covdata-${covdataID++}.out`);
+		try {
+			await convertCovdata(
+				dirs.map((d) => d.fsPath),
+				coverProfilePath,
+				workspaceDir
+			);
+		} catch (e) {
+			vscode.window.showErrorMessage(
+				`Failed to convert the coverage data (go tool covdata requires Go 1.20 or newer): ${e}`
+			);
+			return;
+		}
+		await applyCodeCoverageToAllEditors(coverProfilePath, workspaceDir);
+	};
+};
+
+// Merges the coverage data in the given directories and writes it to
+// coverProfilePath in the text format used by `go test -coverprofile`.
+async function convertCovdata(dirs: string[], coverProfilePath: string, cwd?: string) {
+	const execFile = util.promisify(cp.execFile);
+	const args = ['tool', 'covdata', 'textfmt', `-i=${dirs.join(',')}`, `-o=${coverProfilePath}`];
+	try {
+		await execFile(getBinPath('go'), args, { cwd, env: toolExecutionEnvironment() });
+	} catch (e) {
+		throw (e as { stderr?: string }).stderr?.trim() || e;
+	}
+}
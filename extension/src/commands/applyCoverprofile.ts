@@ -3,6 +3,7 @@
  * Licensed under the MIT License. See LICENSE in the project root for license information.
  *--------------------------------------------------------*/
 
+import * as path from 'path';
 import * as vscode from 'vscode';
 
 import { CommandFactory } from '.';
@@ -21,22 +22,27 @@ export const applyCoverprofile: CommandFactory = () => {
 		const lastCoverProfilePath = getFromWorkspaceState(lastCoverProfilePathKey, '');
 		vscode.window
 			.showInputBox({
-				prompt: 'Enter the path to the coverage profile for current package',
+				prompt: `Enter the path to the coverage profile for current package. Separate multiple profiles with '${path.delimiter}' to merge them.`,
 				value: lastCoverProfilePath
 			})
 			.then((coverProfilePath) => {
 				if (!coverProfilePath) {
 					return;
 				}
-				if (!fileExists(coverProfilePath)) {
-					vscode.window.showErrorMessage(`Cannot find the file ${coverProfilePath}`);
+				const coverProfilePaths = coverProfilePath
+					.split(path.delimiter)
+					.map((p) => p.trim())
+					.filter((p) => p);
+				const missing = coverProfilePaths.find((p) => !fileExists(p));
+				if (missing) {
+					vscode.window.showErrorMessage(`Cannot find the file ${missing}`);
 					return;
 				}
 				if (coverProfilePath !== lastCoverProfilePath) {
 					updateWorkspaceState(lastCoverProfilePathKey, coverProfilePath);
 				}
 				applyCodeCoverageToAllEditors(
-					coverProfilePath,
+					coverProfilePaths,
 					getWorkspaceFolderPath(vscode.window.activeTextEditor?.document.uri)
 				);
 			});
@@ -0,0 +1,41 @@
+/*---------------------------------------------------------
+ * Copyright 2024 The Go Authors. All rights reserved.
+ * Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+
+import { CommandFactory } from '.';
+import { applyCoverageBaseline, coverageBaselinePathKey } from '../goCover';
+import { getFromWorkspaceState } from '../stateUtils';
+import { getWorkspaceFolderPath } from '../util';
+import { fileExists } from '../utils/pathUtils';
+
+export const setCoverageBaseline: CommandFactory = () => {
+	return async () => {
+		const lastBaselinePath = getFromWorkspaceState(coverageBaselinePathKey, '');
+		const coverProfilePath = await vscode.window.showInputBox({
+			prompt: 'Enter the path to the coverage profile to compare the coverage against',
+			value: lastBaselinePath
+		});
+		if (!coverProfilePath) {
+			return;
+		}
+		if (!fileExists(coverProfilePath)) {
+			vscode.window.showErrorMessage(`Cannot find the file ${coverProfilePath}`);
+			return;
+		}
+		try {
+			await applyCoverageBaseline(
+				coverProfilePath,
+				getWorkspaceFolderPath(vscode.window.activeTextEditor?.document.uri)
+			);
+		} catch (e) {
+			vscode.window.showErrorMessage(`Failed to read the coverage baseline ${coverProfilePath}: ${e}`);
+		}
+	};
+};
+
+export const clearCoverageBaseline: CommandFactory = () => {
+	return () => applyCoverageBaseline(undefined);
+};
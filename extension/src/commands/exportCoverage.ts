@@ -0,0 +1,73 @@
+/*---------------------------------------------------------
+ * Copyright 2024 The Go Authors. All rights reserved.
+ * Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+import { CommandFactory } from '.';
+import { getAppliedCoverage } from '../goCover';
+import { getWorkspaceFolderPath } from '../util';
+import { toCobertura, toLcov } from '../utils/coverageFormats';
+import { CoverProfile } from '../utils/coverProfile';
+
+interface ExportFormat extends vscode.QuickPickItem {
+	fileName: string;
+	filters: { [name: string]: string[] };
+	convert: (profile: CoverProfile, root?: string) => string;
+}
+
+const formats: ExportFormat[] = [
+	{ label: 'LCOV', fileName: 'lcov.info', filters: { LCOV: ['info', 'lcov'] }, convert: toLcov },
+	{ label: 'Cobertura XML', fileName: 'coverage.xml', filters: { XML: ['xml'] }, convert: toCobertura }
+];
+
+// exportCoverage writes the applied coverage to a file in the LCOV or
+// Cobertura XML format.
+export const exportCoverage: CommandFactory = () => {
+	return async () => {
+		const profile = getAppliedCoverage();
+		if (!profile) {
+			vscode.window.showErrorMessage(
+				'No coverage to export. Run tests with coverage or apply a cover profile first.'
+			);
+			return;
+		}
+
+		const format = await vscode.window.showQuickPick(formats, { title: 'Go: Export Coverage' });
+		if (!format) {
+			return;
+		}
+		const workspaceDir = getWorkspaceFolderPath(vscode.window.activeTextEditor?.document.uri);
+		let root: string | undefined;
+		if (workspaceDir) {
+			const pick = await vscode.window.showQuickPick(
+				[
+					{ label: 'Workspace-relative paths', description: workspaceDir, root: workspaceDir },
+					{ label: 'Absolute paths', root: undefined }
+				],
+				{ title: 'Go: Export Coverage' }
+			);
+			if (!pick) {
+				return;
+			}
+			root = pick.root;
+		}
+
+		const target = await vscode.window.showSaveDialog({
+			defaultUri: workspaceDir ? vscode.Uri.file(path.join(workspaceDir, format.fileName)) : undefined,
+			filters: format.filters,
+			title: 'Go: Export Coverage'
+		});
+		if (!target) {
+			return;
+		}
+		try {
+			fs.writeFileSync(target.fsPath, format.convert(profile, root));
+		} catch (e) {
+			vscode.window.showErrorMessage(`Failed to export the coverage to ${target.fsPath}: ${e}`);
+		}
+	};
+};
@@ -7,7 +7,10 @@ import * as vscode from 'vscode';
 
 import { GoExtensionContext } from '../context';
 
+export { applyCovdata } from './applyCovdata';
 export { applyCoverprofile } from './applyCoverprofile';
+export { clearCoverageBaseline, setCoverageBaseline } from './coverageBaseline';
+export { exportCoverage } from './exportCoverage';
 export { getConfiguredGoTools } from './getConfiguredGoTools';
 export { getCurrentGoPath } from './getCurrentGoPath';
 export { getCurrentGoRoot } from './getCurrentGoRoot';
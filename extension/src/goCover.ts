@@ -8,15 +8,18 @@
 
 'use strict';
 
-import fs = require('fs');
 import path = require('path');
 import vscode = require('vscode');
 import { CommandFactory } from './commands';
 import { getGoConfig } from './config';
 import { isModSupported } from './goModules';
 import { getImportPathToFolder } from './goPackages';
+import { outputChannel } from './goStatus';
+import { getFromWorkspaceState, updateWorkspaceState } from './stateUtils';
 import { getTestFlags, goTest, showTestOutput, TestConfig } from './testUtils';
-import { fixDriveCasingInWindows } from './utils/pathUtils';
+import { getWorkspaceFolderPath } from './util';
+import { CoverageBlock, CoverageMode, CoverProfile, parseCoverProfile } from './utils/coverProfile';
+import { fileExists, fixDriveCasingInWindows } from './utils/pathUtils';
 
 let gutterSvgs: { [key: string]: string };
 
@@ -33,6 +36,9 @@ let decorators: {
 	uncoveredGutter: vscode.TextEditorDecorationType;
 	coveredHighlight: Highlight;
 	uncoveredHighlight: Highlight;
+	gained: vscode.TextEditorDecorationType;
+	lost: vscode.TextEditorDecorationType;
+	stale: vscode.TextEditorDecorationType;
 };
 
 let decoratorConfig: {
@@ -46,11 +52,6 @@ let decoratorConfig: {
 	uncoveredGutterStyle: string;
 };
 
-// a list of modified, unsaved go files with actual code edits (rather than comment edits)
-let modifiedFiles: {
-	[key: string]: boolean;
-} = {};
-
 /**
  * Initializes the decorators used for Code coverage.
  * @param ctx The extension context
@@ -74,6 +75,14 @@ export function initCoverageDecorators(ctx: vscode.ExtensionContext) {
 
 	const goConfig = getGoConfig();
 	updateCodeCoverageDecorators(goConfig.get('coverageDecorator'));
+
+	// Restore the coverage baseline pinned in a previous session.
+	const baselinePath = getFromWorkspaceState(coverageBaselinePathKey);
+	if (baselinePath && fileExists(baselinePath)) {
+		applyCoverageBaseline(baselinePath, getWorkspaceFolderPath()).catch((e) =>
+			outputChannel.error(`failed to load the coverage baseline ${baselinePath}: ${e}`)
+		);
+	}
 }
 
 /**
@@ -162,6 +171,31 @@ function setDecorators() {
 			top: vscode.window.createTextEditorDecorationType(utop),
 			mid: vscode.window.createTextEditorDecorationType(umid),
 			bot: vscode.window.createTextEditorDecorationType(ubot)
+		},
+		gained: vscode.window.createTextEditorDecorationType(delta('charts.green', 'coverage gained')),
+		lost: vscode.window.createTextEditorDecorationType(delta('charts.red', 'coverage lost')),
+		stale: vscode.window.createTextEditorDecorationType({
+			overviewRulerLane: 2,
+			overviewRulerColor: new vscode.ThemeColor('editorWarning.foreground'),
+			borderStyle: 'dashed',
+			borderWidth: '1px',
+			borderColor: new vscode.ThemeColor('editorWarning.foreground')
+		})
+	};
+}
+
+// delta returns the options for decorating lines whose coverage changed
+// relative to the coverage baseline.
+function delta(color: string, text: string): vscode.DecorationRenderOptions {
+	return {
+		isWholeLine: true,
+		overviewRulerLane: vscode.OverviewRulerLane.Left,
+		overviewRulerColor: new vscode.ThemeColor(color),
+		after: {
+			contentText: text,
+			color: new vscode.ThemeColor(color),
+			fontStyle: 'italic',
+			margin: '0 0 0 2em'
 		}
 	};
 }
@@ -181,21 +215,49 @@ function disposeDecorators() {
 		decorators.uncoveredHighlight.top.dispose();
 		decorators.uncoveredHighlight.mid.dispose();
 		decorators.uncoveredHighlight.bot.dispose();
+		decorators.gained.dispose();
+		decorators.lost.dispose();
+		decorators.stale.dispose();
 	}
 }
 
 interface CoverageData {
 	uncoveredOptions: vscode.DecorationOptions[];
 	coveredOptions: vscode.DecorationOptions[];
+	gainedOptions: vscode.DecorationOptions[];
+	lostOptions: vscode.DecorationOptions[];
+	staleOptions: vscode.DecorationOptions[];
 }
 
 let coverageData: { [key: string]: CoverageData } = {}; // actual file path to the coverage data.
 let isCoverageApplied = false;
 
+// the applied cover profiles.
+let appliedCoverage: CoverProfile | undefined;
+const appliedCoverageChanged = new vscode.EventEmitter<CoverProfile | undefined>();
+
+// Fired when the applied coverage changes or is cleared.
+export const onDidChangeAppliedCoverage = appliedCoverageChanged.event;
+
+export function getAppliedCoverage(): CoverProfile | undefined {
+	return appliedCoverage;
+}
+
+// actual file path to the coverage of each (0-based) line in the baseline
+// profile. A line is covered if any of the blocks on that line was executed.
+let baselineCoverage: Map<string, Map<number, boolean>> | undefined;
+export const coverageBaselinePathKey = 'coverageBaselinePathKey';
+
+// the blocks of the applied coverage that were edited after the coverage was collected.
+let staleBlocks = new Set<CoverageBlock>();
+
 function emptyCoverageData(): CoverageData {
 	return {
 		uncoveredOptions: [],
-		coveredOptions: []
+		coveredOptions: [],
+		gainedOptions: [],
+		lostOptions: [],
+		staleOptions: []
 	};
 }
 
@@ -204,105 +266,190 @@ function emptyCoverageData(): CoverageData {
  */
 function clearCoverage() {
 	coverageData = {};
+	appliedCoverage = undefined;
+	staleBlocks = new Set();
 	disposeDecorators();
 	isCoverageApplied = false;
+	appliedCoverageChanged.fire(undefined);
 }
 
 /**
- * Extract the coverage data from the given cover profile & apply them on the files in the open editors.
- * @param coverProfilePath Path to the file that has the cover profile data
- * @param packageDirPath Absolute path of the package for which the coverage was calculated
+ * Extract the coverage data from the given cover profiles & apply them on the files in the open editors.
+ * Multiple cover profiles are merged. If go.coverMergeProfiles is set, they replace the applied
+ * coverage of the files they cover, and the coverage of the other files is kept.
+ * @param coverProfilePaths Path(s) to the file(s) that have the cover profile data
  * @param dir Directory to execute go list in
  */
-export function applyCodeCoverageToAllEditors(coverProfilePath: string, dir?: string): Promise<void> {
-	const v = new Promise<void>((resolve, reject) => {
-		try {
-			const showCounts = getGoConfig().get('coverShowCounts') as boolean;
-			const coveragePath = new Map<string, CoverageData>(); // <filename> from the cover profile to the coverage data.
-
+export async function applyCodeCoverageToAllEditors(coverProfilePaths: string | string[], dir?: string): Promise<void> {
+	try {
+		if (!getGoConfig().get<boolean>('coverMergeProfiles')) {
 			// Clear existing coverage files
 			clearCoverage();
+		}
 
-			// collect the packages named in the coverage file
-			const seenPaths = new Set<string>();
-			// for now read synchronously and hope for no errors
-			const contents = fs.readFileSync(coverProfilePath).toString();
-			contents.split('\n').forEach((line) => {
-				// go test coverageprofile generates output:
-				//    filename:StartLine.StartColumn,EndLine.EndColumn Hits CoverCount
-				// where the filename is either the import path + '/' + base file name, or
-				// the actual file path (either absolute or starting with .)
-				// See https://golang.org/issues/40251.
-				//
-				// The first line will be like "mode: set" which we will ignore.
-				// TODO: port https://golang.org/cl/179377 for faster parsing.
-
-				const parse = line.match(/^(\S+)\:(\d+)\.(\d+)\,(\d+)\.(\d+)\s(\d+)\s(\d+)/);
-				if (!parse) {
-					return;
-				}
+		const paths = typeof coverProfilePaths === 'string' ? [coverProfilePaths] : coverProfilePaths;
+		let incoming: CoverProfile | undefined;
+		for (const profile of await Promise.all(paths.map((p) => readCoverProfile(p, dir)))) {
+			incoming = mergeCoverProfiles(incoming, profile);
+		}
+		if (incoming && appliedCoverage) {
+			// The coverage of the files that the new profiles cover, such as
+			// that of the tests that were run again, is replaced instead of
+			// being added to. Only the coverage of other files accumulates.
+			const { blocks } = appliedCoverage;
+			incoming.blocks.forEach((_, file) => {
+				blocks.get(file)?.forEach((b) => staleBlocks.delete(b));
+				blocks.delete(file);
+			});
+		}
+		if (incoming) {
+			appliedCoverage = mergeCoverProfiles(appliedCoverage, incoming);
+		}
+		appliedCoverageChanged.fire(appliedCoverage);
+		await createCoverageData();
+		setDecorators();
+		vscode.window.visibleTextEditors.forEach(applyCodeCoverage);
+	} catch (e) {
+		vscode.window.showInformationMessage((e as any).msg);
+		throw e;
+	}
+}
 
-				let filename = parse[1];
-				if (filename.startsWith('.' + path.sep)) {
-					// If it's a relative file path, convert it to an absolute path.
-					// From now on, we can assume that it's a real file name if it is
-					// an absolute path.
-					filename = path.resolve(filename);
-				}
-				// If this is not a real file name, that's package_path + file name,
-				// Record it in seenPaths for `go list` call to resolve package path ->
-				// directory mapping.
-				if (!path.isAbsolute(filename)) {
-					const lastSlash = filename.lastIndexOf('/');
-					if (lastSlash !== -1) {
-						seenPaths.add(filename.slice(0, lastSlash));
-					}
+/**
+ * Reads the given cover profile and returns its mode and its blocks, keyed by
+ * the actual path of the file they belong to. Blocks that appear more than once,
+ * as they do when multiple test binaries cover the same package, are merged.
+ * @param coverProfilePath Path to the file that has the cover profile data
+ * @param dir Directory to execute go list in
+ */
+export async function readCoverProfile(coverProfilePath: string, dir?: string): Promise<CoverProfile> {
+	// Large profiles take a while to read, so report the progress.
+	const { mode, blocks: profileBlocks } = await vscode.window.withProgress(
+		{ location: vscode.ProgressLocation.Window, title: `Reading ${path.basename(coverProfilePath)}` },
+		(progress) => {
+			let reported = 0;
+			return parseCoverProfile(coverProfilePath, (fraction) => {
+				const percent = Math.floor(fraction * 100);
+				if (percent > reported) {
+					progress.report({ message: `${percent}%`, increment: percent - reported });
+					reported = percent;
 				}
+			});
+		}
+	);
+
+	// The file names in a cover profile are either the import path + '/' + base file name,
+	// or the actual file path (either absolute or starting with .)
+	// See https://golang.org/issues/40251.
+	const fileBlocks = new Map<string, CoverageBlock[]>();
+	// collect the packages named in the coverage file
+	const seenPaths = new Set<string>();
+	const yieldAfter = yielder();
+	for (let [filename, blocks] of profileBlocks) {
+		if (filename.startsWith('.' + path.sep)) {
+			// If it's a relative file path, convert it to an absolute path.
+			// From now on, we can assume that it's a real file name if it is
+			// an absolute path.
+			filename = path.resolve(filename);
+		}
+		// If this is not a real file name, that's package_path + file name,
+		// Record it in seenPaths for `go list` call to resolve package path ->
+		// directory mapping.
+		if (!path.isAbsolute(filename)) {
+			const lastSlash = filename.lastIndexOf('/');
+			if (lastSlash !== -1) {
+				seenPaths.add(filename.slice(0, lastSlash));
+			}
+		}
 
-				// and fill in coveragePath
-				const coverage = coveragePath.get(parse[1]) || emptyCoverageData();
-				// When line directive is used this information is artificial and
-				// the source code file can be non-existent or wrong (go.dev/issues/41222).
-				// There is no perfect way to guess whether the line/col in coverage profile
-				// is bogus. At least, we know that 0 or negative values are not true line/col.
-				const startLine = parseInt(parse[2], 10);
-				const startCol = parseInt(parse[3], 10);
-				const endLine = parseInt(parse[4], 10);
-				const endCol = parseInt(parse[5], 10);
-				if (startLine < 1 || startCol < 1 || endLine < 1 || endCol < 1) {
-					return;
-				}
-				const range = new vscode.Range(
-					// Convert lines and columns to 0-based
-					startLine - 1,
-					startCol - 1,
-					endLine - 1,
-					endCol - 1
-				);
-
-				const counts = parseInt(parse[7], 10);
-				// If is Covered (CoverCount > 0)
-				if (counts > 0) {
-					coverage.coveredOptions.push(...elaborate(range, counts, showCounts));
-				} else {
-					coverage.uncoveredOptions.push(...elaborate(range, counts, showCounts));
-				}
+		// When line directive is used this information is artificial and
+		// the source code file can be non-existent or wrong (go.dev/issues/41222).
+		// There is no perfect way to guess whether the line/col in coverage profile
+		// is bogus. At least, we know that 0 or negative values are not true line/col.
+		blocks = blocks.filter((b) => b.startLine >= 1 && b.startCol >= 1 && b.endLine >= 1 && b.endCol >= 1);
+		if (blocks.length > 0) {
+			fileBlocks.set(filename, [...(fileBlocks.get(filename) ?? []), ...blocks]);
+		}
+		await yieldAfter(blocks.length);
+	}
 
-				coveragePath.set(filename, coverage);
-			});
+	const pathsToDirs = await getImportPathToFolder([...seenPaths], dir);
+	const result = new Map<string, CoverageBlock[]>();
+	for (const [ip, blocks] of fileBlocks) {
+		mergeBlocks(result, new Map([[resolveCoverFilePath(pathsToDirs, ip), blocks]]), mode);
+		await yieldAfter(blocks.length);
+	}
+	return { mode, blocks: result };
+}
 
-			getImportPathToFolder([...seenPaths], dir).then((pathsToDirs) => {
-				createCoverageData(pathsToDirs, coveragePath);
-				setDecorators();
-				vscode.window.visibleTextEditors.forEach(applyCodeCoverage);
-				resolve();
-			});
-		} catch (e) {
-			vscode.window.showInformationMessage((e as any).msg);
-			reject(e);
+// The number of blocks that are processed before yielding to the event loop,
+// so that large profiles do not block the extension host.
+const blocksPerBatch = 50000;
+
+// Returns a function that is called with the number of blocks processed since
+// the last call, and yields to the event loop once a batch of blocks has been
+// processed.
+function yielder(): (blocks: number) => Promise<void> {
+	let processed = 0;
+	return async (blocks) => {
+		processed += blocks;
+		if (processed < blocksPerBatch) return;
+		processed = 0;
+		await new Promise((resolve) => setImmediate(resolve));
+	};
+}
+
+/**
+ * Merges the blocks of src into dst. The hit counts of identical blocks are
+ * added up, or combined as booleans in 'set' mode.
+ * @param dst Actual file path to blocks, updated in place
+ * @param src Actual file path to the blocks to merge into dst
+ * @param mode The mode of the merged coverage
+ */
+function mergeBlocks(dst: Map<string, CoverageBlock[]>, src: Map<string, CoverageBlock[]>, mode: CoverageMode) {
+	src.forEach((blocks, file) => {
+		// Identical blocks are next to each other once the blocks are sorted
+		// by position. The sort is stable, so the blocks of dst, which are
+		// kept, come before the copies of the blocks of src.
+		const sorted = [...(dst.get(file) || []), ...blocks.map((b) => ({ ...b }))].sort(compareBlocks);
+		const merged: CoverageBlock[] = [];
+		for (const b of sorted) {
+			const last = merged[merged.length - 1];
+			if (!last || compareBlocks(last, b) !== 0) {
+				merged.push(b);
+			} else if (mode === 'set') {
+				last.count = last.count > 0 || b.count > 0 ? 1 : 0;
+			} else {
+				last.count += b.count;
+			}
 		}
+		dst.set(file, merged);
 	});
-	return v;
+}
+
+function compareBlocks(a: CoverageBlock, b: CoverageBlock): number {
+	return a.startLine - b.startLine || a.startCol - b.startCol || a.endLine - b.endLine || a.endCol - b.endCol;
+}
+
+/**
+ * Merges the cover profile src into dst, and returns the result.
+ * @param dst The cover profile to update in place, or undefined to start from an empty one
+ * @param src The cover profile to merge into dst
+ */
+export function mergeCoverProfiles(dst: CoverProfile | undefined, src: CoverProfile): CoverProfile {
+	if (!dst) {
+		dst = { mode: src.mode, blocks: new Map() };
+	}
+	// 'count' and 'atomic' differ only in how the counts are updated, so they can be added up.
+	const mode = dst.mode === 'set' || src.mode === 'set' ? 'set' : dst.mode;
+	mergeBlocks(dst.blocks, src.blocks, mode);
+	if (mode === 'set' && src.mode !== dst.mode) {
+		// Hit counts are meaningless once any of the merged profiles only
+		// recorded whether a block was executed.
+		dst.blocks.forEach((blocks) => blocks.forEach((b) => (b.count = b.count > 0 ? 1 : 0)));
+	}
+	dst.mode = mode;
+	return dst;
 }
 
 // add decorations to the range
@@ -329,32 +476,90 @@ function elaborate(r: vscode.Range, count: number, showCounts: boolean): vscode.
 	return ans;
 }
 
-function createCoverageData(pathsToDirs: Map<string, string>, coveragePath: Map<string, CoverageData>) {
-	coveragePath.forEach((cd, ip) => {
-		if (path.isAbsolute(ip)) {
-			setCoverageDataByFilePath(ip, cd);
-			return;
-		}
+/**
+ * Fills in coverageData, the decorations for each file, from the applied coverage
+ * and the coverage baseline, if one is set. Large profiles are processed in batches
+ * that yield to the event loop.
+ */
+async function createCoverageData() {
+	const data: { [key: string]: CoverageData } = {};
+	const yieldAfter = yielder();
+	for (const [file, blocks] of appliedCoverage?.blocks ?? []) {
+		data[file] = createFileCoverageData(file, blocks);
+		await yieldAfter(blocks.length);
+	}
+	coverageData = data;
+}
 
-		const lastSlash = ip.lastIndexOf('/');
-		if (lastSlash === -1) {
-			setCoverageDataByFilePath(ip, cd);
-			return;
+function createFileCoverageData(file: string, blocks: CoverageBlock[]): CoverageData {
+	const showCounts = getGoConfig().get('coverShowCounts') as boolean;
+	const cd = emptyCoverageData();
+	for (const block of blocks) {
+		const range = new vscode.Range(
+			// Convert lines and columns to 0-based
+			block.startLine - 1,
+			block.startCol - 1,
+			block.endLine - 1,
+			block.endCol - 1
+		);
+		if (staleBlocks.has(block)) {
+			cd.staleOptions.push({
+				range,
+				hoverMessage: `${block.count} executions before this code was edited. Run the tests again to update the coverage.`
+			});
+		} else if (block.count > 0) {
+			// If is Covered (CoverCount > 0)
+			cd.coveredOptions.push(...elaborate(range, block.count, showCounts));
+		} else {
+			cd.uncoveredOptions.push(...elaborate(range, block.count, showCounts));
 		}
+	}
 
-		const maybePkgPath = ip.slice(0, lastSlash);
-		const fileDir = pathsToDirs.get(maybePkgPath) || path.resolve(maybePkgPath);
-		const file = fileDir + path.sep + ip.slice(lastSlash + 1);
-		setCoverageDataByFilePath(file, cd);
-	});
+	// Compare against the baseline line by line. Lines that do not appear in the
+	// baseline are new code, for which there is nothing to compare against.
+	const baseline = baselineCoverage?.get(file);
+	if (baseline) {
+		lineCoverage(blocks.filter((b) => !staleBlocks.has(b))).forEach((covered, line) => {
+			const wasCovered = baseline.get(line);
+			if (wasCovered === undefined || wasCovered === covered) {
+				return;
+			}
+			const range = new vscode.Range(line, 0, line, 0);
+			if (covered) {
+				cd.gainedOptions.push({ range, hoverMessage: 'Covered, but not covered in the coverage baseline' });
+			} else {
+				cd.lostOptions.push({ range, hoverMessage: 'Not covered, but covered in the coverage baseline' });
+			}
+		});
+	}
+	return cd;
+}
+
+// lineCoverage returns whether each (0-based) line spanned by the blocks is covered.
+function lineCoverage(blocks: CoverageBlock[]): Map<number, boolean> {
+	const lines = new Map<number, boolean>();
+	for (const block of blocks) {
+		for (let line = block.startLine - 1; line <= block.endLine - 1; line++) {
+			lines.set(line, lines.get(line) || block.count > 0);
+		}
+	}
+	return lines;
 }
 
 /**
- * Set the object that holds the coverage data for given file path.
- * @param filePath
- * @param data
+ * Returns the actual file path for a file name found in a cover profile.
+ * @param pathsToDirs Mapping from import paths to package directories
+ * @param ip Either the import path + '/' + base file name, or the actual file path
  */
-function setCoverageDataByFilePath(filePath: string, data: CoverageData) {
+function resolveCoverFilePath(pathsToDirs: Map<string, string>, ip: string): string {
+	let filePath = ip;
+	const lastSlash = ip.lastIndexOf('/');
+	if (!path.isAbsolute(ip) && lastSlash !== -1) {
+		const maybePkgPath = ip.slice(0, lastSlash);
+		const fileDir = pathsToDirs.get(maybePkgPath) || path.resolve(maybePkgPath);
+		filePath = fileDir + path.sep + ip.slice(lastSlash + 1);
+	}
+
 	if (filePath.startsWith('_')) {
 		filePath = filePath.substr(1);
 	}
@@ -364,7 +569,30 @@ function setCoverageDataByFilePath(filePath: string, data: CoverageData) {
 			filePath = parts.join(path.sep);
 		}
 	}
-	coverageData[filePath] = data;
+	return filePath;
+}
+
+/**
+ * Sets the cover profile to compare the coverage against, and refreshes the
+ * decorations of the coverage currently applied.
+ * @param coverProfilePath Path to the baseline cover profile, or undefined to clear the baseline
+ * @param dir Directory to execute go list in
+ */
+export async function applyCoverageBaseline(coverProfilePath: string | undefined, dir?: string): Promise<void> {
+	if (!coverProfilePath) {
+		baselineCoverage = undefined;
+	} else {
+		const { blocks } = await readCoverProfile(coverProfilePath, dir);
+		baselineCoverage = new Map();
+		blocks.forEach((b, file) => baselineCoverage?.set(file, lineCoverage(b)));
+	}
+	updateWorkspaceState(coverageBaselinePathKey, coverProfilePath);
+
+	if (appliedCoverage) {
+		await createCoverageData();
+		setDecorators();
+		vscode.window.visibleTextEditors.forEach(applyCodeCoverage);
+	}
 }
 
 /**
@@ -403,6 +631,10 @@ export function applyCodeCoverage(editor: vscode.TextEditor | undefined) {
 				detailed(editor, decorators.uncoveredHighlight, cd.uncoveredOptions);
 			}
 		}
+
+		editor.setDecorations(decorators.gained, cd.gainedOptions);
+		editor.setDecorations(decorators.lost, cd.lostOptions);
+		editor.setDecorations(decorators.stale, cd.staleOptions);
 	}
 }
 
@@ -442,60 +674,105 @@ function detailed(editor: vscode.TextEditor, h: Highlight, opts: vscode.Decorati
 			}
 		}
 	});
-	if (tops.length > 0) {
-		editor.setDecorations(h.top, tops);
-	}
-	if (mids.length > 0) {
-		editor.setDecorations(h.mid, mids);
-	}
-	if (bots.length > 0) {
-		editor.setDecorations(h.bot, bots);
-	}
-	if (alls.length > 0) {
-		editor.setDecorations(h.all, alls);
-	}
+	// Set the decorations even if there are none, to remove the decorations
+	// of blocks that became stale.
+	editor.setDecorations(h.top, tops);
+	editor.setDecorations(h.mid, mids);
+	editor.setDecorations(h.bot, bots);
+	editor.setDecorations(h.all, alls);
 }
 
 /**
- * Listener for file save that clears potential stale coverage data.
- * Local cache tracks files with changes outside of comments to determine
- * files for which the save event can cause stale coverage data.
- * @param e TextDocument
+ * Listener for file change that keeps the coverage of the file aligned with
+ * its content. Blocks after an edit are moved, and blocks that contain an edit
+ * outside of comments are marked as stale until the coverage is collected again.
+ * @param e TextDocumentChangeEvent
  */
-export function removeCodeCoverageOnFileSave(e: vscode.TextDocument) {
-	if (e.languageId !== 'go' || !isCoverageApplied) {
+export function updateCodeCoverageOnFileChange(e: vscode.TextDocumentChangeEvent) {
+	if (e.document.languageId !== 'go' || !e.contentChanges.length || !appliedCoverage) {
 		return;
 	}
 
-	if (vscode.window.visibleTextEditors.every((editor) => editor.document !== e)) {
+	const doc = fixDriveCasingInWindows(e.document.fileName);
+	const file = [...appliedCoverage.blocks.keys()].find((f) => fixDriveCasingInWindows(f) === doc);
+	if (!file) {
 		return;
 	}
-
-	if (modifiedFiles[e.fileName]) {
-		clearCoverage();
-		modifiedFiles = {}; // reset the list of modified files
+	const blocks = appliedCoverage.blocks.get(file) ?? [];
+	const markStale = !isPartOfComment(e);
+	for (const change of e.contentChanges) {
+		blocks.forEach((b) => shiftBlock(b, change, markStale));
+		const baseline = baselineCoverage?.get(file);
+		if (baseline) {
+			baselineCoverage?.set(file, shiftLines(baseline, change));
+		}
 	}
+
+	coverageData[file] = createFileCoverageData(file, blocks);
+	vscode.window.visibleTextEditors.filter((editor) => editor.document === e.document).forEach(applyCodeCoverage);
 }
 
 /**
- * Listener for file change that tracks files with changes outside of comments
- * to determine files for which an eventual save can cause stale coverage data.
- * @param e TextDocumentChangeEvent
+ * Moves the block so that it stays aligned with the text after the change.
+ * A block that overlaps the change is resized to include the new text, and
+ * marked as stale if markStale is set.
  */
-export function trackCodeCoverageRemovalOnFileChange(e: vscode.TextDocumentChangeEvent) {
-	if (e.document.languageId !== 'go' || !e.contentChanges.length || !isCoverageApplied) {
+function shiftBlock(b: CoverageBlock, change: vscode.TextDocumentContentChangeEvent, markStale: boolean) {
+	const { range } = change;
+	let start = new vscode.Position(b.startLine - 1, b.startCol - 1);
+	let end = new vscode.Position(b.endLine - 1, b.endCol - 1);
+	if (end.isBeforeOrEqual(range.start)) {
 		return;
 	}
 
-	if (vscode.window.visibleTextEditors.every((editor) => editor.document !== e.document)) {
-		return;
+	const lines = change.text.split(/\r?\n/);
+	const textEnd =
+		lines.length === 1
+			? range.start.translate(0, change.text.length)
+			: new vscode.Position(range.start.line + lines.length - 1, lines[lines.length - 1].length);
+	// move returns the new position of a position after the change.
+	const move = (p: vscode.Position) =>
+		p.line === range.end.line
+			? new vscode.Position(textEnd.line, textEnd.character + p.character - range.end.character)
+			: p.translate(textEnd.line - range.end.line);
+
+	if (start.isAfterOrEqual(range.end)) {
+		start = move(start);
+		end = move(end);
+	} else {
+		if (markStale) {
+			staleBlocks.add(b);
+		}
+		if (start.isAfter(range.start)) {
+			start = range.start;
+		}
+		end = end.isAfterOrEqual(range.end) ? move(end) : textEnd;
 	}
+	b.startLine = start.line + 1;
+	b.startCol = start.character + 1;
+	b.endLine = end.line + 1;
+	b.endCol = end.character + 1;
+}
 
-	if (isPartOfComment(e)) {
-		return;
+/**
+ * Returns the baseline coverage of the lines after the change. Lines replaced
+ * by the change are dropped.
+ */
+function shiftLines(lines: Map<number, boolean>, change: vscode.TextDocumentContentChangeEvent): Map<number, boolean> {
+	const { range } = change;
+	const delta = change.text.split(/\r?\n/).length - 1 - (range.end.line - range.start.line);
+	if (delta === 0) {
+		return lines;
 	}
-
-	modifiedFiles[e.document.fileName] = true;
+	const shifted = new Map<number, boolean>();
+	lines.forEach((covered, line) => {
+		if (line <= range.start.line) {
+			shifted.set(line, covered);
+		} else if (line > range.end.line) {
+			shifted.set(line + delta, covered);
+		}
+	});
+	return shifted;
 }
 
 /**
@@ -555,6 +832,10 @@ export function coverageFilesForTest(): { [key: string]: CoverageData } {
 	return coverageData;
 }
 
+export function coverageBlocksForTest(): Map<string, CoverageBlock[]> {
+	return appliedCoverage?.blocks ?? new Map();
+}
+
 export function initForTest() {
 	if (!decoratorConfig) {
 		// this code is unnecessary except for testing, where there may be no workspace
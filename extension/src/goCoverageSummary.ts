@@ -0,0 +1,187 @@
+/*---------------------------------------------------------
+ * Copyright 2024 The Go Authors. All rights reserved.
+ * Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------*/
+import vscode = require('vscode');
+import path = require('path');
+import { applyCodeCoverage, getAppliedCoverage, onDidChangeAppliedCoverage } from './goCover';
+import { countStatements, CoverageBlock, CoverProfile, groupByPackage } from './utils/coverProfile';
+
+/**
+ * GoCoverageSummaryProvider provides data for the Coverage tree view in the
+ * Test view container. The applied coverage is summarized by module, package,
+ * file and function.
+ */
+export class GoCoverageSummaryProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+	static setup(ctx: vscode.ExtensionContext) {
+		const provider = new this(ctx);
+		const {
+			window: { registerTreeDataProvider },
+			commands: { registerCommand }
+		} = vscode;
+		ctx.subscriptions.push(
+			registerTreeDataProvider('go.coverage.summary', provider),
+			registerCommand('go.coverage.summary.open', (item) => provider.open(item))
+		);
+		return provider;
+	}
+
+	private _onDidChangeTreeData = new vscode.EventEmitter<vscode.TreeItem | void>();
+	readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+	// The modules of the applied coverage, once they have been summarized.
+	private modules: Promise<ModuleItem[]> = Promise.resolve([]);
+
+	constructor(ctx: vscode.ExtensionContext) {
+		this.update(getAppliedCoverage());
+		ctx.subscriptions.push(onDidChangeAppliedCoverage((profile) => this.update(profile)));
+	}
+
+	getTreeItem(element: vscode.TreeItem) {
+		return element;
+	}
+
+	async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
+		if (!element) {
+			return this.modules;
+		}
+		if (element instanceof ModuleItem || element instanceof PackageItem) {
+			return element.children;
+		}
+		if (element instanceof FileItem) {
+			return functionItems(element);
+		}
+		return [];
+	}
+
+	private async update(profile: CoverProfile | undefined) {
+		const modules = profile ? summarize(profile) : Promise.resolve([]);
+		this.modules = modules;
+		const { length } = await modules;
+		if (this.modules !== modules) {
+			return;
+		}
+		vscode.commands.executeCommand('setContext', 'go.hasCoverage', length > 0);
+		this._onDidChangeTreeData.fire();
+	}
+
+	private async open(item: FileItem | FunctionItem) {
+		const selection = item instanceof FunctionItem ? new vscode.Range(item.start, item.start) : undefined;
+		const editor = await vscode.window.showTextDocument(item.uri, { selection });
+		applyCodeCoverage(editor);
+	}
+}
+
+// The number of covered statements out of the total number of statements.
+interface StatementCount {
+	covered: number;
+	total: number;
+}
+
+function sumStatements(items: { count: StatementCount }[]): StatementCount {
+	const count = { covered: 0, total: 0 };
+	for (const { count: c } of items) {
+		count.covered += c.covered;
+		count.total += c.total;
+	}
+	return count;
+}
+
+class CoverageTreeItem extends vscode.TreeItem {
+	constructor(
+		label: string,
+		public readonly count: StatementCount,
+		collapsibleState: vscode.TreeItemCollapsibleState
+	) {
+		super(label, collapsibleState);
+		if (count.total === 0) {
+			this.description = 'no statements';
+		} else {
+			this.description = `${((100 * count.covered) / count.total).toFixed(1)}% (${count.covered}/${count.total})`;
+		}
+		this.tooltip = `${label}\n${count.covered} of ${count.total} statements covered`;
+	}
+}
+
+class ModuleItem extends CoverageTreeItem {
+	iconPath = new vscode.ThemeIcon('symbol-module');
+	constructor(label: string, public readonly children: PackageItem[]) {
+		super(label, sumStatements(children), vscode.TreeItemCollapsibleState.Expanded);
+	}
+}
+
+class PackageItem extends CoverageTreeItem {
+	iconPath = new vscode.ThemeIcon('package');
+	constructor(importPath: string, public readonly children: FileItem[]) {
+		super(importPath, sumStatements(children), vscode.TreeItemCollapsibleState.Collapsed);
+	}
+}
+
+class FileItem extends CoverageTreeItem {
+	constructor(public readonly uri: vscode.Uri, public readonly blocks: CoverageBlock[]) {
+		super(path.basename(uri.fsPath), countStatements(blocks), vscode.TreeItemCollapsibleState.Collapsed);
+		this.resourceUri = uri;
+		this.command = { title: 'Open', command: 'go.coverage.summary.open', arguments: [this] };
+	}
+}
+
+class FunctionItem extends CoverageTreeItem {
+	iconPath = new vscode.ThemeIcon('symbol-function');
+	constructor(
+		public readonly uri: vscode.Uri,
+		name: string,
+		public readonly start: vscode.Position,
+		count: StatementCount
+	) {
+		super(name, count, vscode.TreeItemCollapsibleState.None);
+		this.command = { title: 'Open', command: 'go.coverage.summary.open', arguments: [this] };
+	}
+}
+
+// Groups the packages of the profile by module. Packages outside of a module
+// are grouped together.
+async function summarize(profile: CoverProfile): Promise<ModuleItem[]> {
+	const modules = new Map<string, { label: string; packages: PackageItem[] }>();
+	for (const pkg of await groupByPackage(profile)) {
+		const key = pkg.module?.dir ?? '';
+		let m = modules.get(key);
+		if (!m) {
+			m = { label: pkg.module?.path ?? 'no module', packages: [] };
+			modules.set(key, m);
+		}
+		const files = pkg.files.map((f) => new FileItem(vscode.Uri.file(f), profile.blocks.get(f) ?? []));
+		m.packages.push(new PackageItem(pkg.importPath, files.sort(byLabel)));
+	}
+	return Array.from(modules.values())
+		.map(({ label, packages }) => new ModuleItem(label, packages.sort(byLabel)))
+		.sort(byLabel);
+}
+
+function byLabel(a: vscode.TreeItem, b: vscode.TreeItem) {
+	return `${a.label}`.localeCompare(`${b.label}`);
+}
+
+// Returns the coverage of each function and method of the file. The functions
+// are found with the document symbol provider, so this requires gopls.
+async function functionItems(file: FileItem): Promise<FunctionItem[]> {
+	const symbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[] | undefined>(
+		'vscode.executeDocumentSymbolProvider',
+		file.uri
+	);
+	const items: FunctionItem[] = [];
+	const visit = (symbols: vscode.DocumentSymbol[]) => {
+		for (const s of symbols) {
+			if (s.kind === vscode.SymbolKind.Function || s.kind === vscode.SymbolKind.Method) {
+				const blocks = file.blocks.filter((b) =>
+					s.range.contains(new vscode.Position(b.startLine - 1, b.startCol - 1))
+				);
+				items.push(new FunctionItem(file.uri, s.name, s.selectionRange.start, countStatements(blocks)));
+			}
+			if (s.children) {
+				visit(s.children);
+			}
+		}
+	};
+	visit(symbols ?? []);
+	return items;
+}
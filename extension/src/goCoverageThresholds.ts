@@ -0,0 +1,176 @@
+/*---------------------------------------------------------
+ * Copyright 2024 The Go Authors. All rights reserved.
+ * Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------*/
+
+import vscode = require('vscode');
+import fs = require('fs');
+import path = require('path');
+import { getGoConfig } from './config';
+import { getAppliedCoverage, onDidChangeAppliedCoverage } from './goCover';
+import { countStatements, CoverageBlock, CoverProfile, groupByPackage } from './utils/coverProfile';
+
+const STATUS_BAR_ITEM_NAME = 'Go Coverage Thresholds';
+
+let statusBarItem: vscode.StatusBarItem;
+let diagnosticCollection: vscode.DiagnosticCollection;
+
+interface CoverageThresholds {
+	global?: number;
+	packages?: { [glob: string]: number };
+}
+
+// CoverageViolation is a package whose coverage is below its threshold.
+export interface CoverageViolation {
+	importPath: string;
+	dir: string;
+	files: string[];
+	percent: number;
+	threshold: number;
+}
+
+/**
+ * Checks the coverage thresholds configured in go.coverageThresholds whenever
+ * coverage is applied, and reports the packages below their threshold in the
+ * status bar and in the Problems view.
+ */
+export function initCoverageThresholds(ctx: vscode.ExtensionContext) {
+	statusBarItem = vscode.window.createStatusBarItem(STATUS_BAR_ITEM_NAME, vscode.StatusBarAlignment.Left);
+	statusBarItem.name = STATUS_BAR_ITEM_NAME;
+	statusBarItem.command = 'workbench.actions.view.problems';
+	diagnosticCollection = vscode.languages.createDiagnosticCollection('go-coverage');
+	ctx.subscriptions.push(
+		statusBarItem,
+		diagnosticCollection,
+		onDidChangeAppliedCoverage(checkCoverageThresholds),
+		vscode.workspace.onDidChangeConfiguration((e) => {
+			if (e.affectsConfiguration('go.coverageThresholds')) {
+				checkCoverageThresholds(getAppliedCoverage());
+			}
+		})
+	);
+}
+
+// The number of the latest check, so that the results of a check that is
+// overtaken by a newer one are dropped.
+let checks = 0;
+
+async function checkCoverageThresholds(profile: CoverProfile | undefined) {
+	const check = ++checks;
+	const thresholds: CoverageThresholds = getGoConfig().get('coverageThresholds') ?? {};
+	if (!profile || (thresholds.global === undefined && Object.keys(thresholds.packages ?? {}).length === 0)) {
+		diagnosticCollection.clear();
+		statusBarItem.hide();
+		return;
+	}
+
+	// The files of the packages are read asynchronously, so that large
+	// profiles do not block the extension host.
+	const violations = await findCoverageViolations(profile, thresholds);
+	const diagnostics: [vscode.Uri, vscode.Diagnostic[]][] = [];
+	for (const v of violations) {
+		const message =
+			`Coverage of package ${v.importPath} is ${v.percent.toFixed(1)}%, ` +
+			`below the threshold of ${v.threshold}% set in go.coverageThresholds`;
+		for (const file of await packageFiles(v)) {
+			const range = await packageClause(file);
+			const diagnostic = new vscode.Diagnostic(range, message, vscode.DiagnosticSeverity.Warning);
+			diagnostic.source = 'go coverage';
+			diagnostics.push([vscode.Uri.file(file), [diagnostic]]);
+		}
+	}
+	if (check !== checks) {
+		return;
+	}
+	diagnosticCollection.clear();
+	diagnosticCollection.set(diagnostics);
+
+	if (violations.length === 0) {
+		statusBarItem.text = '$(pass) Coverage';
+		statusBarItem.tooltip = 'All packages meet their coverage threshold';
+		statusBarItem.backgroundColor = undefined;
+	} else {
+		statusBarItem.text = `$(warning) Coverage: ${violations.length} below threshold`;
+		statusBarItem.tooltip = violations
+			.map((v) => `${v.importPath}: ${v.percent.toFixed(1)}% < ${v.threshold}%`)
+			.join('\n');
+		statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+	}
+	statusBarItem.show();
+}
+
+/**
+ * Returns the packages of the profile whose coverage is below their threshold.
+ * The threshold of a package is set by the first pattern in thresholds.packages
+ * that matches its import path, or else by thresholds.global. Packages without
+ * statements are ignored.
+ */
+export async function findCoverageViolations(
+	profile: CoverProfile,
+	thresholds: CoverageThresholds
+): Promise<CoverageViolation[]> {
+	const patterns = Object.entries(thresholds.packages ?? {}).map(
+		([glob, threshold]) => [globToRegExp(glob), threshold] as [RegExp, number]
+	);
+	const violations: CoverageViolation[] = [];
+	for (const pkg of await groupByPackage(profile)) {
+		const threshold = patterns.find(([re]) => re.test(pkg.importPath))?.[1] ?? thresholds.global;
+		if (threshold === undefined) {
+			continue;
+		}
+		const blocks: CoverageBlock[] = [];
+		pkg.files.forEach((f) => blocks.push(...(profile.blocks.get(f) ?? [])));
+		const { covered, total } = countStatements(blocks);
+		if (total === 0) {
+			continue;
+		}
+		const percent = (100 * covered) / total;
+		if (percent < threshold) {
+			violations.push({ importPath: pkg.importPath, dir: pkg.dir, files: pkg.files, percent, threshold });
+		}
+	}
+	return violations.sort((a, b) => a.importPath.localeCompare(b.importPath));
+}
+
+// globToRegExp converts a glob pattern for import paths to a regular expression.
+// '*' matches any sequence of characters except '/', and '**' matches any
+// sequence of characters.
+function globToRegExp(glob: string): RegExp {
+	const re = glob
+		.split('**')
+		.map((part) =>
+			part
+				.split('*')
+				.map((s) => s.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+				.join('[^/]*')
+		)
+		.join('.*');
+	return new RegExp(`^${re}$`);
+}
+
+// Returns the go files of the package, including those that are not in the
+// profile because they have no statements, but not the test files.
+async function packageFiles(v: CoverageViolation): Promise<string[]> {
+	try {
+		return (await fs.promises.readdir(v.dir))
+			.filter((f) => f.endsWith('.go') && !f.endsWith('_test.go'))
+			.map((f) => path.join(v.dir, f));
+	} catch {
+		return v.files;
+	}
+}
+
+// Returns the range of the package clause of the file, where the diagnostic
+// for the package is reported.
+async function packageClause(file: string): Promise<vscode.Range> {
+	try {
+		const lines = (await fs.promises.readFile(file, 'utf8')).split('\n');
+		const line = lines.findIndex((l) => /^package\s/.test(l));
+		if (line >= 0) {
+			return new vscode.Range(line, 0, line, lines[line].trimEnd().length);
+		}
+	} catch {
+		// Report the diagnostic at the start of the file.
+	}
+	return new vscode.Range(0, 0, 0, 0);
+}
@@ -38,6 +38,24 @@ export function activate(ctx: vscode.ExtensionContext, goCtx: GoExtensionContext
 	registerCommand('go.debug.toggleHideSystemGoroutines', () => toggleHideSystemGoroutines);
 }
 
+// DebuggeeOutput is output written by the program of a debug session to its
+// stdout or stderr, as reported by an output event of the debug adapter.
+export interface DebuggeeOutput {
+	session: vscode.DebugSession;
+	category: 'stdout' | 'stderr';
+	output: string;
+}
+
+const debuggeeOutputEmitter = new vscode.EventEmitter<DebuggeeOutput>();
+
+// onDidReceiveDebuggeeOutput fires when the program of a Go debug session
+// writes to its stdout or stderr.
+export const onDidReceiveDebuggeeOutput = debuggeeOutputEmitter.event;
+
+export function fireDebuggeeOutputForTest(e: DebuggeeOutput) {
+	debuggeeOutputEmitter.fire(e);
+}
+
 class GoDebugAdapterDescriptorFactory implements vscode.DebugAdapterDescriptorFactory {
 	constructor(private outputChannel: vscode.LogOutputChannel) {}
 
@@ -87,6 +105,12 @@ class GoDebugAdapterTrackerFactory implements vscode.DebugAdapterTrackerFactory
 			onDidSendMessage: (message: any) => {
 				logger.trace(`client  <- ${JSON.stringify(message)}`);
 				responsesReceived++;
+				if (message?.type === 'event' && message.event === 'output') {
+					const { category, output } = message.body ?? {};
+					if ((category === 'stdout' || category === 'stderr') && typeof output === 'string') {
+						debuggeeOutputEmitter.fire({ session, category, output });
+					}
+				}
 			},
 			onError: (error: Error) => logger.error(`error: ${error}`),
 			onWillStopSession: () => {
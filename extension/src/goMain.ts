@@ -15,10 +15,9 @@ import { notifyIfGeneratedFile, removeTestStatus } from './goCheck';
 import {
 	applyCodeCoverage,
 	initCoverageDecorators,
-	removeCodeCoverageOnFileSave,
 	toggleCoverageCurrentPackage,
-	trackCodeCoverageRemovalOnFileChange,
-	updateCodeCoverageDecorators
+	updateCodeCoverageDecorators,
+	updateCodeCoverageOnFileChange
 } from './goCover';
 import { GoDebugConfigurationProvider } from './goDebugConfiguration';
 import * as GoDebugFactory from './goDebugFactory';
@@ -68,6 +67,8 @@ import extensionAPI from './extensionAPI';
 import { GoTestExplorer, isVscodeTestingAPIAvailable } from './goTest/explore';
 import { killRunningPprof } from './goTest/profile';
 import { GoExplorerProvider } from './goExplorer';
+import { GoCoverageSummaryProvider } from './goCoverageSummary';
+import { initCoverageThresholds } from './goCoverageThresholds';
 import { GoExtensionContext } from './context';
 import * as commands from './commands';
 import { toggleVulncheckCommandFactory } from './goVulncheck';
@@ -140,6 +141,7 @@ export async function activate(ctx: vscode.ExtensionContext): Promise<ExtensionA
 	offerToInstallLatestGoVersion(ctx);
 
 	initCoverageDecorators(ctx);
+	initCoverageThresholds(ctx);
 
 	registerCommand('go.builds.run', commands.runBuilds);
 	registerCommand('go.environment.status', expandGoStatusBar);
@@ -190,6 +192,7 @@ export async function activate(ctx: vscode.ExtensionContext): Promise<ExtensionA
 	}
 
 	GoExplorerProvider.setup(ctx);
+	GoCoverageSummaryProvider.setup(ctx);
 
 	registerCommand('go.test.generate.package', goGenerateTests.generateTestCurrentPackage);
 	registerCommand('go.test.generate.file', goGenerateTests.generateTestCurrentFile);
@@ -213,6 +216,10 @@ export async function activate(ctx: vscode.ExtensionContext): Promise<ExtensionA
 	registerCommand('go.global.resetState', resetGlobalState);
 	registerCommand('go.toggle.gc_details', commands.toggleGCDetails);
 	registerCommand('go.apply.coverprofile', commands.applyCoverprofile);
+	registerCommand('go.apply.covdata', commands.applyCovdata);
+	registerCommand('go.coverage.setBaseline', commands.setCoverageBaseline);
+	registerCommand('go.coverage.clearBaseline', commands.clearCoverageBaseline);
+	registerCommand('go.coverage.export', commands.exportCoverage);
 
 	// Go Environment switching commands
 	registerCommand('go.environment.choose', chooseGoEnvironment);
@@ -346,7 +353,6 @@ function addOnDidChangeConfigListeners(ctx: vscode.ExtensionContext) {
 }
 
 function addOnSaveTextDocumentListeners(ctx: vscode.ExtensionContext) {
-	vscode.workspace.onDidSaveTextDocument(removeCodeCoverageOnFileSave, null, ctx.subscriptions);
 	vscode.workspace.onDidSaveTextDocument(
 		(document) => {
 			if (document.languageId !== 'go') {
@@ -380,7 +386,7 @@ function addOnSaveTextDocumentListeners(ctx: vscode.ExtensionContext) {
 }
 
 function addOnChangeTextDocumentListeners(ctx: vscode.ExtensionContext) {
-	vscode.workspace.onDidChangeTextDocument(trackCodeCoverageRemovalOnFileChange, null, ctx.subscriptions);
+	vscode.workspace.onDidChangeTextDocument(updateCodeCoverageOnFileChange, null, ctx.subscriptions);
 	vscode.workspace.onDidChangeTextDocument(removeTestStatus, null, ctx.subscriptions);
 	vscode.workspace.onDidChangeTextDocument(notifyIfGeneratedFile, ctx, ctx.subscriptions);
 }
@@ -271,6 +271,20 @@ export async function debugTestAtCursor(
 ) {
 	const doc = 'document' in editorOrDocument ? editorOrDocument.document : editorOrDocument;
 	const args = getTestFunctionDebugArgs(doc, testFunctionName, testFunctions, suiteToFunc);
+	return debugTestsInPackage(doc, args, goConfig, sessionID);
+}
+
+/**
+ * Starts a debug session that runs the tests of the package of the document
+ * that are selected by args, such as '-test.run' and '-test.bench' flags.
+ */
+export async function debugTestsInPackage(
+	doc: vscode.TextDocument,
+	args: string[],
+	goConfig: vscode.WorkspaceConfiguration,
+	sessionID?: string
+) {
+	args = [...args];
 	const tags = getTestTags(goConfig);
 	const buildFlags = tags ? ['-tags', tags] : [];
 	const flagsFromConfig = getTestFlags(goConfig);
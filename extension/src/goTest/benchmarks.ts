@@ -0,0 +1,238 @@
+/*---------------------------------------------------------
+ * Copyright 2024 The Go Authors. All rights reserved.
+ * Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------*/
+import { EventEmitter, Memento, TestItem, Uri, ViewColumn, window } from 'vscode';
+import cp = require('child_process');
+import path = require('path');
+import { promisify } from 'util';
+import { GoTest } from './utils';
+import {
+	BenchmarkMetrics,
+	BenchmarkSamples,
+	compareBenchmarks,
+	formatComparisons,
+	sortUnits
+} from '../utils/benchstat';
+import { renderTrendChart, TrendPoint } from '../utils/benchmarkChart';
+import { xmlEscape } from '../utils/xmlUtils';
+
+const execFile = promisify(cp.execFile);
+
+const benchmarksMemento = 'benchmarkRuns';
+
+// The number of runs with benchmark results that are kept.
+const maxRuns = 50;
+
+// BenchmarkRun is the results of the benchmarks of one test run.
+export interface BenchmarkRun {
+	// The time the results were recorded, in milliseconds since the epoch.
+	time: number;
+	// The samples of each benchmark, by test ID.
+	results: Record<string, BenchmarkResult>;
+	// The commit the benchmarks ran at, if they are in a git repository.
+	commit?: GitCommit;
+}
+
+export interface GitCommit {
+	// The abbreviated hash.
+	hash: string;
+	subject: string;
+	// Whether tracked files had uncommitted changes.
+	dirty: boolean;
+}
+
+export interface BenchmarkResult {
+	// The name of the benchmark, qualified by the name of its package
+	// directory, such as "http.BenchmarkServe/small".
+	name: string;
+	samples: BenchmarkSamples;
+}
+
+// BenchmarkResults collects the results of the benchmarks of a test run. A
+// benchmark has one result for each of its runs, as set by -count.
+export class BenchmarkResults {
+	readonly results: Record<string, BenchmarkResult> = {};
+
+	// The directory of the package of the first benchmark, which determines
+	// the commit of the run.
+	dir?: string;
+
+	add(item: TestItem, metrics: BenchmarkMetrics) {
+		if (!this.dir && item.uri) this.dir = path.dirname(item.uri.fsPath);
+		const { name = item.label } = GoTest.parseId(item.id);
+		const result = (this.results[item.id] = this.results[item.id] ?? {
+			name: item.uri ? `${path.basename(path.dirname(item.uri.fsPath))}.${name}` : name,
+			samples: {}
+		});
+		for (const unit in metrics) {
+			result.samples[unit] = [...(result.samples[unit] ?? []), metrics[unit]];
+		}
+	}
+}
+
+// GoBenchmarkHistory stores the results of the benchmarks of each test run in
+// the workspace state, so that runs can be compared.
+export class GoBenchmarkHistory {
+	private readonly didSave = new EventEmitter<void>();
+	// Fires when the results of a test run are stored.
+	readonly onDidSave = this.didSave.event;
+
+	// The latest samples of each benchmark that was looked up since the last
+	// run was stored, by test ID.
+	private readonly latestByItem = new Map<string, Map<string, { run: BenchmarkRun; samples: BenchmarkSamples }>>();
+
+	constructor(private readonly workspaceState: Memento) {}
+
+	// Returns the stored runs, oldest first.
+	get runs(): BenchmarkRun[] {
+		return this.workspaceState.get<BenchmarkRun[]>(benchmarksMemento) ?? [];
+	}
+
+	async save(results: BenchmarkResults) {
+		if (Object.keys(results.results).length === 0) return;
+		const run: BenchmarkRun = { time: Date.now(), results: results.results };
+		if (results.dir) run.commit = await headCommit(results.dir);
+		await this.workspaceState.update(benchmarksMemento, [...this.runs, run].slice(-maxRuns));
+		this.latestByItem.clear();
+		this.didSave.fire();
+	}
+
+	// Returns a Markdown document that compares the benchmarks that ran in both
+	// runs.
+	compare(base: BenchmarkRun, head: BenchmarkRun): string {
+		const samples = (run: BenchmarkRun) => {
+			const byName: Record<string, BenchmarkSamples> = {};
+			Object.values(run.results).forEach((x) => (byName[x.name] = x.samples));
+			return byName;
+		};
+		const comparisons = compareBenchmarks(samples(base), samples(head));
+		const title = `# Benchmarks of ${formatTime(head)} compared with ${formatTime(base)}`;
+		if (comparisons.length === 0) {
+			return `${title}\n\nNo benchmark ran in both runs.\n`;
+		}
+		return `${title}\n\n${formatComparisons(comparisons, 'base', 'head')}\n`;
+	}
+
+	// Returns the samples of the benchmark and of its sub-benchmarks in each
+	// stored run, by name, oldest first.
+	trend(item: TestItem): Map<string, { run: BenchmarkRun; samples: BenchmarkSamples }[]> {
+		const file = Uri.parse(item.id).with({ fragment: '' }).toString();
+		const { name = '' } = GoTest.parseId(item.id);
+		const trend = new Map<string, { run: BenchmarkRun; samples: BenchmarkSamples }[]>();
+		for (const run of this.runs) {
+			for (const id in run.results) {
+				const { name: n = '' } = GoTest.parseId(id);
+				if (Uri.parse(id).with({ fragment: '' }).toString() !== file) continue;
+				if (n !== name && !n.startsWith(`${name}/`)) continue;
+				trend.set(n, [...(trend.get(n) ?? []), { run, samples: run.results[id].samples }]);
+			}
+		}
+		return trend;
+	}
+
+	// Returns the latest samples of the benchmark and of its sub-benchmarks, by
+	// name. The result is cached until the next run is stored.
+	latest(item: TestItem): Map<string, { run: BenchmarkRun; samples: BenchmarkSamples }> {
+		const cached = this.latestByItem.get(item.id);
+		if (cached) return cached;
+		const latest = new Map<string, { run: BenchmarkRun; samples: BenchmarkSamples }>();
+		this.trend(item).forEach((points, name) => latest.set(name, points[points.length - 1]));
+		this.latestByItem.set(item.id, latest);
+		return latest;
+	}
+
+	// Opens a webview with a chart of each unit of the benchmark and its
+	// sub-benchmarks over the stored runs.
+	showTrend(item: TestItem) {
+		const sections: string[] = [];
+		for (const [name, points] of [...this.trend(item)].sort(([a], [b]) => a.localeCompare(b))) {
+			const units = sortUnits([
+				...new Set(points.reduce<string[]>((all, x) => all.concat(Object.keys(x.samples)), []))
+			]);
+
+			const charts = units.map((unit) => {
+				const trendPoints: TrendPoint[] = points
+					.filter((x) => x.samples[unit]?.length)
+					.map(({ run, samples }) => ({
+						commit: run.commit && `${run.commit.hash}${run.commit.dirty ? '*' : ''}`,
+						description: [
+							formatTime(run),
+							run.commit &&
+								`${run.commit.hash}${run.commit.dirty ? ' (modified)' : ''} ${run.commit.subject}`
+						]
+							.filter((x) => x)
+							.join('\n'),
+						samples: samples[unit]
+					}));
+				return renderTrendChart(unit, trendPoints);
+			});
+			sections.push(`<h2>${xmlEscape(name)}</h2>${charts.join('')}`);
+		}
+
+		const { name = item.label } = GoTest.parseId(item.id);
+		const panel = window.createWebviewPanel('go.benchmarkTrend', `Benchmark Trend: ${name}`, ViewColumn.Active);
+		panel.webview.html = `<html>
+		<head>
+			<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
+			<style>
+				svg text {
+					fill: var(--vscode-foreground);
+					font-size: 11px;
+				}
+
+				.axis {
+					stroke: var(--vscode-foreground);
+					stroke-opacity: 0.5;
+				}
+
+				svg text.axis, svg text.commit {
+					stroke: none;
+				}
+
+				.line {
+					fill: none;
+					stroke: var(--vscode-charts-blue);
+					stroke-width: 2;
+				}
+
+				.range {
+					stroke: var(--vscode-charts-blue);
+					stroke-opacity: 0.5;
+					stroke-width: 6;
+				}
+
+				.point {
+					fill: var(--vscode-charts-blue);
+				}
+
+				.commit {
+					stroke: var(--vscode-charts-orange);
+					stroke-dasharray: 4 4;
+				}
+			</style>
+		</head>
+		<body>
+			${sections.length ? sections.join('\n') : '<p>No results of this benchmark are stored.</p>'}
+		</body>
+	</html>`;
+	}
+}
+
+// Returns the commit checked out in the directory, or undefined if it is not in
+// a git repository.
+async function headCommit(dir: string): Promise<GitCommit | undefined> {
+	try {
+		const { stdout } = await execFile('git', ['log', '-1', '--format=%h%x00%s'], { cwd: dir });
+		const [hash, subject = ''] = stdout.trim().split('\0');
+		if (!hash) return;
+		const status = await execFile('git', ['status', '--porcelain', '--untracked-files=no'], { cwd: dir });
+		return { hash, subject, dirty: status.stdout.trim() !== '' };
+	} catch {
+		return;
+	}
+}
+
+export function formatTime(run: BenchmarkRun): string {
+	return new Date(run.time).toLocaleString();
+}
@@ -0,0 +1,94 @@
+/*---------------------------------------------------------
+ * Copyright 2024 The Go Authors. All rights reserved.
+ * Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------*/
+import {
+	FileCoverage,
+	Range,
+	StatementCoverage,
+	TestCoverageCount,
+	TestRun,
+	TextDocumentContentChangeEvent,
+	Uri
+} from 'vscode';
+import { countStatements, CoverageBlock, CoverageMode, CoverProfile } from '../utils/coverProfile';
+import { fixDriveCasingInWindows } from '../utils/pathUtils';
+
+// GoFileCoverage is the coverage of a file as reported to the test API. The
+// statement counts are computed from the blocks of the cover profile. Cover
+// profiles do not record which branches were taken, so there is no branch
+// coverage.
+export class GoFileCoverage extends FileCoverage {
+	constructor(uri: Uri, private readonly mode: CoverageMode, private readonly blocks: CoverageBlock[]) {
+		const { covered, total } = countStatements(blocks);
+		super(uri, new TestCoverageCount(covered, total));
+	}
+
+	// The coverage of each block in the file. In 'set' mode, the profile only
+	// records whether a block was executed, not how many times.
+	get details(): StatementCoverage[] {
+		return this.blocks.map(
+			(b) =>
+				new StatementCoverage(
+					this.mode === 'set' ? b.count > 0 : b.count,
+					new Range(b.startLine - 1, b.startCol - 1, b.endLine - 1, b.endCol - 1)
+				)
+		);
+	}
+}
+
+// Reports the coverage of each file in the cover profile to the test run.
+export function addCoverage(run: TestRun, profile: CoverProfile) {
+	profile.blocks.forEach((blocks, file) => run.addCoverage(new GoFileCoverage(Uri.file(file), profile.mode, blocks)));
+}
+
+// TestCoverageIndex maps each line to the tests that cover it. It is built from
+// runs in which each test has its own cover profile.
+export class TestCoverageIndex {
+	// file path to (0-based) line to the IDs of the tests covering the line.
+	private readonly files = new Map<string, Map<number, Set<string>>>();
+
+	// Replaces the lines covered by the test with those covered in the profile.
+	set(testID: string, profile: CoverProfile) {
+		this.files.forEach((lines) => lines.forEach((tests) => tests.delete(testID)));
+		profile.blocks.forEach((blocks, file) => {
+			const key = fixDriveCasingInWindows(file);
+			const lines = this.files.get(key) ?? new Map<number, Set<string>>();
+			for (const b of blocks) {
+				if (b.count === 0) continue;
+				for (let line = b.startLine - 1; line <= b.endLine - 1; line++) {
+					const tests = lines.get(line) ?? new Set<string>();
+					tests.add(testID);
+					lines.set(line, tests);
+				}
+			}
+			this.files.set(key, lines);
+		});
+	}
+
+	// Returns the IDs of the tests covering the (0-based) line of the file.
+	testsAt(file: string, line: number): string[] {
+		return [...(this.files.get(fixDriveCasingInWindows(file))?.get(line) ?? [])];
+	}
+
+	// Moves the lines after the change so that they stay aligned with the
+	// content of the file. Lines replaced by the change keep their tests.
+	shift(file: string, change: TextDocumentContentChangeEvent) {
+		const key = fixDriveCasingInWindows(file);
+		const lines = this.files.get(key);
+		const { range } = change;
+		const delta = change.text.split(/\r?\n/).length - 1 - (range.end.line - range.start.line);
+		if (!lines || delta === 0) {
+			return;
+		}
+		const shifted = new Map<number, Set<string>>();
+		lines.forEach((tests, line) => {
+			if (line <= range.start.line) {
+				shifted.set(line, tests);
+			} else if (line > range.end.line) {
+				shifted.set(line + delta, tests);
+			}
+		});
+		this.files.set(key, shifted);
+	}
+}
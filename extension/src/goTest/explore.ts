@@ -6,6 +6,7 @@ import {
 	ConfigurationChangeEvent,
 	ExtensionContext,
 	Memento,
+	Position,
 	Range,
 	TestController,
 	TestItem,
@@ -24,7 +25,11 @@ import { dispose, disposeIfEmpty, findItem, GoTest, isInTest, Workspace } from '
 import { GoTestResolver, ProvideSymbols } from './resolve';
 import { GoTestRunner } from './run';
 import { GoTestProfiler } from './profile';
+import { GoTestHistory } from './history';
+import { formatTime, GoBenchmarkHistory } from './benchmarks';
 import { GoExtensionContext } from '../context';
+import { GO_MODE } from '../goMode';
+import { escapeCell, formatMetrics } from '../utils/benchstat';
 
 // Set true only if the Testing API is available (VSCode version >= 1.59).
 export const isVscodeTestingAPIAvailable =
@@ -41,9 +46,24 @@ export class GoTestExplorer {
 			symProvider.provideDocumentSymbols(doc)
 		);
 
+		// Show the latest results of benchmarks at the end of the line of their
+		// function.
+		const benchmarkDecoration = vscode.window.createTextEditorDecorationType({
+			after: { color: new vscode.ThemeColor('editorCodeLens.foreground'), margin: '0 0 0 2em' }
+		});
+		const decorateBenchmarks = () =>
+			vscode.window.visibleTextEditors.forEach((ed) =>
+				ed.setDecorations(benchmarkDecoration, inst.benchmarkDecorations(ed.document))
+			);
+		context.subscriptions.push(benchmarkDecoration);
+		context.subscriptions.push(inst.benchmarks.onDidSave(decorateBenchmarks));
+		context.subscriptions.push(vscode.window.onDidChangeVisibleTextEditors(decorateBenchmarks));
+
 		// Process already open editors
 		vscode.window.visibleTextEditors.forEach((ed) => {
-			inst.documentUpdate(ed.document);
+			inst.documentUpdate(ed.document)
+				.then(decorateBenchmarks)
+				.catch((error) => outputChannel.error(`Failed to process ${ed.document.uri}: ${error}`));
 		});
 
 		context.subscriptions.push(ctrl);
@@ -130,8 +150,127 @@ export class GoTestExplorer {
 		);
 
 		context.subscriptions.push(
-			vscode.commands.registerCommand('go.test.showProfileFile', async (file: Uri) => {
-				return inst.profiler.showFile(file.fsPath);
+			vscode.commands.registerCommand('go.test.showProfileFile', async (file: Uri, kind?: string) => {
+				return inst.profiler.showFile(file.fsPath, kind);
+			})
+		);
+
+		context.subscriptions.push(
+			vscode.commands.registerCommand('go.test.runCoveringTests', async (ids: string[]) => {
+				const items = Array.from(inst.resolver.allItems).filter((x) => ids.includes(x.id));
+				if (items.length === 0) {
+					await vscode.window.showErrorMessage('The tests were not found');
+					return;
+				}
+
+				try {
+					await inst.runner.run(new TestRunRequest(items));
+				} catch (error) {
+					const m = 'Failed to execute tests';
+					outputChannel.appendLine(`${m}: ${error}`);
+					outputChannel.show();
+					await vscode.window.showErrorMessage(m);
+				}
+			})
+		);
+
+		context.subscriptions.push(
+			vscode.commands.registerCommand('go.test.rerunFailed', async () => {
+				const items = inst.runner.failedTests;
+				if (items.length === 0) {
+					await vscode.window.showInformationMessage('No tests failed in the last run');
+					return;
+				}
+
+				try {
+					await inst.runner.run(new TestRunRequest(items));
+				} catch (error) {
+					const m = 'Failed to execute tests';
+					outputChannel.appendLine(`${m}: ${error}`);
+					outputChannel.show();
+					await vscode.window.showErrorMessage(m);
+				}
+			})
+		);
+
+		context.subscriptions.push(
+			vscode.commands.registerCommand('go.test.runUntilFailure', async (item) => {
+				if (!item) {
+					await vscode.window.showErrorMessage('No test selected');
+					return;
+				}
+
+				const count = await vscode.window.showInputBox({
+					title: 'Run Until Failure',
+					prompt: 'Number of times to run the tests, or empty to run them until they fail',
+					validateInput: (value) =>
+						/^\d*$/.test(value.trim()) && value.trim() !== '0' ? undefined : 'Enter a positive number'
+				});
+				if (count === undefined) return;
+
+				try {
+					await inst.runner.stress(new TestRunRequest([item]), Number(count.trim()) || undefined);
+				} catch (error) {
+					const m = 'Failed to execute tests';
+					outputChannel.appendLine(`${m}: ${error}`);
+					outputChannel.show();
+					await vscode.window.showErrorMessage(m);
+				}
+			})
+		);
+
+		context.subscriptions.push(
+			vscode.commands.registerCommand('go.test.compareBenchmarks', async () => {
+				const runs = [...inst.benchmarks.runs].reverse().map((run) => ({
+					label: formatTime(run),
+					description: `${Object.keys(run.results).length} benchmarks`,
+					run
+				}));
+				if (runs.length < 2) {
+					await vscode.window.showInformationMessage(
+						'Run benchmarks at least twice to compare their results'
+					);
+					return;
+				}
+
+				const head = await vscode.window.showQuickPick(runs, {
+					title: 'Compare Benchmark Runs',
+					placeHolder: 'Select the run to compare'
+				});
+				if (!head) return;
+				const base = await vscode.window.showQuickPick(
+					runs.filter((x) => x !== head),
+					{ title: 'Compare Benchmark Runs', placeHolder: 'Select the run to compare it with' }
+				);
+				if (!base) return;
+
+				const content = inst.benchmarks.compare(base.run, head.run);
+				const doc = await vscode.workspace.openTextDocument({ language: 'markdown', content });
+				await vscode.window.showTextDocument(doc);
+			})
+		);
+
+		context.subscriptions.push(
+			vscode.commands.registerCommand('go.test.showBenchmarkTrend', async (item) => {
+				if (!item) {
+					await vscode.window.showErrorMessage('No benchmark selected');
+					return;
+				}
+
+				try {
+					inst.benchmarks.showTrend(item);
+				} catch (error) {
+					const m = 'Failed to show the benchmark trend';
+					outputChannel.appendLine(`${m}: ${error}`);
+					outputChannel.show();
+					await vscode.window.showErrorMessage(m);
+				}
+			})
+		);
+
+		context.subscriptions.push(
+			vscode.languages.registerHoverProvider(GO_MODE, {
+				provideHover: (doc, position) => inst.coveringTestsHover(doc, position)
 			})
 		);
 
@@ -150,6 +289,7 @@ export class GoTestExplorer {
 			workspace.onDidOpenTextDocument(async (x) => {
 				try {
 					await inst.didOpenTextDocument(x);
+					decorateBenchmarks();
 				} catch (error) {
 					if (isInTest()) throw error;
 					else outputChannel.error(`Failed while handling 'onDidOpenTextDocument': ${error}`);
@@ -208,6 +348,8 @@ export class GoTestExplorer {
 	public readonly resolver: GoTestResolver;
 	public readonly runner: GoTestRunner;
 	public readonly profiler: GoTestProfiler;
+	public readonly history: GoTestHistory;
+	public readonly benchmarks: GoBenchmarkHistory;
 
 	constructor(
 		private readonly goCtx: GoExtensionContext,
@@ -218,7 +360,84 @@ export class GoTestExplorer {
 	) {
 		this.resolver = new GoTestResolver(workspace, ctrl, provideDocumentSymbols);
 		this.profiler = new GoTestProfiler(this.resolver, workspaceState);
-		this.runner = new GoTestRunner(goCtx, workspace, ctrl, this.resolver, this.profiler);
+		this.history = new GoTestHistory(workspaceState);
+		this.benchmarks = new GoBenchmarkHistory(workspaceState);
+		this.runner = new GoTestRunner(
+			goCtx,
+			workspace,
+			ctrl,
+			this.resolver,
+			this.profiler,
+			this.history,
+			this.benchmarks
+		);
+	}
+
+	// Lists the tests that cover the line, with links to run them, if the
+	// coverage of each test was collected with the 'Go (Coverage by Test)'
+	// profile.
+	coveringTestsHover(doc: TextDocument, position: Position): vscode.Hover | undefined {
+		const ids = this.runner.coverageIndex.testsAt(doc.fileName, position.line);
+		if (ids.length === 0) {
+			return;
+		}
+		const items = Array.from(this.resolver.allItems).filter((x) => ids.includes(x.id));
+		if (items.length === 0) {
+			return;
+		}
+
+		const link = (items: TestItem[]) =>
+			`command:go.test.runCoveringTests?${encodeURIComponent(JSON.stringify([items.map((x) => x.id)]))}`;
+		const md = new vscode.MarkdownString(
+			`Covered by ${items.length} test${items.length === 1 ? '' : 's'} ([run all](${link(items)})):\n\n`
+		);
+		md.isTrusted = { enabledCommands: ['go.test.runCoveringTests'] };
+		items
+			.sort((a, b) => a.label.localeCompare(b.label))
+			.forEach((x) => md.appendMarkdown(`- [${x.label.replace(/[[\]]/g, '\\$&')}](${link([x])})\n`));
+		return new vscode.Hover(md);
+	}
+
+	// Returns a decoration with the latest results of each benchmark in the
+	// document, with the results of its sub-benchmarks in the hover.
+	benchmarkDecorations(doc: TextDocument): vscode.DecorationOptions[] {
+		const decorations: vscode.DecorationOptions[] = [];
+		const file = this.resolver.all.get(GoTest.id(doc.uri, 'file'));
+		const items: TestItem[] = [];
+		file?.children.forEach((item) => items.push(item));
+		for (const item of items) {
+			const { kind, name } = GoTest.parseId(item.id);
+			if (kind !== 'benchmark' || !name || !item.range) continue;
+			// The range is stale if the document changed since it was
+			// resolved, and the line no longer declares the benchmark.
+			const line = item.range.start.line;
+			if (line >= doc.lineCount || !declares(doc.lineAt(line).text, name)) continue;
+
+			const latest = this.benchmarks.latest(item);
+			if (latest.size === 0) continue;
+
+			// A benchmark that runs sub-benchmarks has no results of its own.
+			const own = latest.get(name);
+			const subs = latest.size - (own ? 1 : 0);
+			const text = own ? formatMetrics(own.samples) : `${subs} sub-benchmark${subs === 1 ? '' : 's'}`;
+
+			const md = new vscode.MarkdownString('| Benchmark | Results | Run |\n| --- | --- | --- |\n');
+			[...latest]
+				.sort(([a], [b]) => a.localeCompare(b))
+				.forEach(([name, { run, samples }]) => {
+					const commit = run.commit ? ` at ${run.commit.hash}${run.commit.dirty ? '*' : ''}` : '';
+					md.appendMarkdown(
+						`| \`${escapeCell(name)}\` | ${formatMetrics(samples)} | ${formatTime(run)}${commit} |\n`
+					);
+				});
+
+			decorations.push({
+				range: doc.lineAt(line).range,
+				renderOptions: { after: { contentText: text } },
+				hoverMessage: md
+			});
+		}
+		return decorations;
 	}
 
 	/* ***** Listeners ***** */
@@ -228,6 +447,7 @@ export class GoTestExplorer {
 	}
 
 	protected async didChangeTextDocument(e: TextDocumentChangeEvent) {
+		e.contentChanges.forEach((change) => this.runner.coverageIndex.shift(e.document.fileName, change));
 		await this.documentUpdate(
 			e.document,
 			e.contentChanges.map((x) => x.range)
@@ -302,6 +522,10 @@ export class GoTestExplorer {
 			this.resolver.resolve();
 			this.resolver.updateGoTestContext();
 		}
+
+		if (e.affectsConfiguration('go.testExplorer.runProfiles')) {
+			this.runner.updateRunProfiles();
+		}
 	}
 
 	/* ***** Private ***** */
@@ -321,6 +545,14 @@ export class GoTestExplorer {
 		}
 
 		await this.resolver.processDocument(doc, ranges);
+		this.resolver.find(doc.uri).forEach((item) => {
+			if (GoTest.parseId(item.id).name) this.history.decorate(item);
+		});
 		this.resolver.updateGoTestContext();
 	}
 }
+
+// Reports whether the line declares the function or method with the name.
+function declares(line: string, name: string): boolean {
+	return new RegExp(`^func\\s+(\\([^)]*\\)\\s*)?${name}\\s*[[(]`).test(line);
+}
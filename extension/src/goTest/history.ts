@@ -0,0 +1,202 @@
+/*---------------------------------------------------------
+ * Copyright 2024 The Go Authors. All rights reserved.
+ * Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------*/
+import { Memento, TestItem, TestMessage, TestRun, TestTag } from 'vscode';
+import { TestRunProxy } from './utils';
+import crypto = require('crypto');
+import fs = require('fs');
+import path = require('path');
+
+const historyMemento = 'testHistory';
+
+// The number of results that are kept for each test.
+const maxResults = 20;
+
+// The number of tests whose results are kept. The results of the tests that
+// ran least recently, such as tests that were deleted or renamed, are dropped.
+const maxTests = 2000;
+
+// Tests that are flaky are tagged with this tag, so they can be found by
+// filtering the test explorer by @go:flaky.
+export const flakyTag = new TestTag('flaky');
+
+type Outcome = 'passed' | 'failed' | 'errored' | 'skipped';
+
+export interface TestResult {
+	outcome: Outcome;
+	// The duration of the test, in milliseconds.
+	duration?: number;
+	// The time the result was recorded, in milliseconds since the epoch.
+	time: number;
+	// A hash of the Go files of the package of the test and of its
+	// dependencies, when the run of the test started.
+	fingerprint: string;
+}
+
+// GoTestHistory records the results of tests across runs in the workspace
+// state, keyed by test ID, and marks the tests that are flaky: tests that
+// both pass and fail while the code of their package and its dependencies does
+// not change.
+export class GoTestHistory {
+	constructor(private readonly workspaceState: Memento) {}
+
+	// Returns the recorded results of the test, oldest first.
+	results(id: string): TestResult[] {
+		return this.all[id] ?? [];
+	}
+
+	// Returns the flakiness score of the test, from 0 to 1: the fraction of
+	// consecutive results with the same code that changed between pass and
+	// fail.
+	flakiness(id: string): number {
+		const results = this.results(id).filter((x) => x.outcome === 'passed' || x.outcome === 'failed');
+		let pairs = 0,
+			flips = 0;
+		for (let i = 1; i < results.length; i++) {
+			if (results[i].fingerprint !== results[i - 1].fingerprint) continue;
+			pairs++;
+			if (results[i].outcome !== results[i - 1].outcome) flips++;
+		}
+		return pairs === 0 ? 0 : flips / pairs;
+	}
+
+	// Shows the flakiness of the test at the end of its description and in its
+	// tags, keeping the rest of its description.
+	decorate(item: TestItem) {
+		const score = this.flakiness(item.id);
+		const tags = item.tags.filter((x) => x.id !== flakyTag.id);
+		item.tags = score > 0 ? [...tags, flakyTag] : tags;
+		const description = (item.description ?? '').replace(/\s*flaky \(\d+%\)$/, '');
+		const badge = score > 0 ? `flaky (${Math.round(score * 100)}%)` : '';
+		item.description = [description, badge].filter((x) => x).join(' ') || undefined;
+	}
+
+	// Returns a test run that records the results reported to run, and saves
+	// them when the run ends. The code of the tests is fingerprinted as the
+	// run starts, from the directories that deps maps the directory of each
+	// package to: the package and its dependencies. The tests of packages that
+	// are not in deps are fingerprinted from the directory of their package.
+	// onEnd is called with the tests that failed.
+	track(
+		run: TestRun,
+		deps: Promise<Map<string, string[]>>,
+		onEnd?: (failed: TestItem[]) => void
+	): TestRun & { saved: Promise<void> } {
+		const fingerprints = deps.then(async (deps) => {
+			// The directories that several packages depend on are read once.
+			const dirHashes = new Map<string, Promise<string>>();
+			const hashOf = (dir: string) => {
+				if (!dirHashes.has(dir)) dirHashes.set(dir, fingerprint(dir));
+				return dirHashes.get(dir) ?? '';
+			};
+			const hashes = new Map<string, string>();
+			for (const [dir, dirs] of deps) {
+				hashes.set(dir, combine(await Promise.all(dirs.map(hashOf))));
+			}
+			return hashes;
+		});
+		return new RecordingTestRun(run, async (results) => {
+			const failed = [...results.entries()].filter(([, x]) => x.outcome === 'failed' || x.outcome === 'errored');
+			onEnd?.(failed.map(([item]) => item));
+			await this.save(results, await fingerprints);
+		});
+	}
+
+	private get all(): Record<string, TestResult[]> {
+		return this.workspaceState.get<Record<string, TestResult[]>>(historyMemento) ?? {};
+	}
+
+	private async save(results: Map<TestItem, Omit<TestResult, 'fingerprint'>>, fingerprints: Map<string, string>) {
+		if (results.size === 0) return;
+
+		for (const item of results.keys()) {
+			const dir = item.uri ? path.dirname(item.uri.fsPath) : '';
+			if (!fingerprints.has(dir)) fingerprints.set(dir, await fingerprint(dir));
+		}
+		const all = this.all;
+		for (const [item, result] of results) {
+			const dir = item.uri ? path.dirname(item.uri.fsPath) : '';
+			const prev = all[item.id] ?? [];
+			all[item.id] = [...prev, { ...result, fingerprint: fingerprints.get(dir) ?? '' }].slice(-maxResults);
+		}
+		await this.workspaceState.update(historyMemento, prune(all));
+		results.forEach((_, item) => this.decorate(item));
+	}
+}
+
+// Returns the results of the maxTests tests that ran most recently.
+function prune(all: Record<string, TestResult[]>): Record<string, TestResult[]> {
+	const ids = Object.keys(all);
+	if (ids.length <= maxTests) return all;
+	const last = (id: string) => all[id][all[id].length - 1]?.time ?? 0;
+	const pruned: Record<string, TestResult[]> = {};
+	for (const id of ids.sort((a, b) => last(b) - last(a)).slice(0, maxTests)) {
+		pruned[id] = all[id];
+	}
+	return pruned;
+}
+
+// Returns a hash of the contents of the Go files in the directory.
+async function fingerprint(dir: string): Promise<string> {
+	const hash = crypto.createHash('sha256');
+	hash.update(dir);
+	try {
+		for (const file of (await fs.promises.readdir(dir)).sort()) {
+			if (!file.endsWith('.go')) continue;
+			hash.update(file);
+			hash.update(await fs.promises.readFile(path.join(dir, file)));
+		}
+	} catch (_) {
+		// The directory is gone, so all its results are compared as equal.
+	}
+	return hash.digest('hex');
+}
+
+// Returns a hash of the hashes of several directories.
+function combine(hashes: string[]): string {
+	const hash = crypto.createHash('sha256');
+	hashes.forEach((x) => hash.update(x));
+	return hash.digest('hex');
+}
+
+// RecordingTestRun collects the last result of each test reported to a test
+// run until the run ends.
+class RecordingTestRun extends TestRunProxy {
+	private readonly results = new Map<TestItem, Omit<TestResult, 'fingerprint'>>();
+
+	// Resolved once the results have been saved, after the run ended.
+	saved = Promise.resolve();
+
+	constructor(
+		run: TestRun,
+		private readonly onEnd: (results: Map<TestItem, Omit<TestResult, 'fingerprint'>>) => Promise<void>
+	) {
+		super(run);
+	}
+
+	skipped(test: TestItem) {
+		this.record(test, 'skipped');
+		super.skipped(test);
+	}
+	failed(test: TestItem, message: TestMessage | readonly TestMessage[], duration?: number) {
+		this.record(test, 'failed', duration);
+		super.failed(test, message, duration);
+	}
+	errored(test: TestItem, message: TestMessage | readonly TestMessage[], duration?: number) {
+		this.record(test, 'errored', duration);
+		super.errored(test, message, duration);
+	}
+	passed(test: TestItem, duration?: number) {
+		this.record(test, 'passed', duration);
+		super.passed(test, duration);
+	}
+	end() {
+		super.end();
+		this.saved = this.onEnd(this.results);
+	}
+
+	private record(test: TestItem, outcome: Outcome, duration?: number) {
+		this.results.set(test, { outcome, duration, time: Date.now() });
+	}
+}
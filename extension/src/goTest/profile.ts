@@ -122,8 +122,8 @@ export class GoTestProfiler {
 		await runs[0].show();
 	}
 
-	showFile(file: string) {
-		return show(file);
+	showFile(file: string, kind?: string) {
+		return show(file, kind ? Kind.get(kind) : undefined);
 	}
 
 	// Tests that have been profiled
@@ -145,7 +145,22 @@ export class GoTestProfiler {
 	}
 }
 
-async function show(profile: string) {
+async function show(profile: string, kind?: Kind) {
+	if (kind?.tool === 'trace') {
+		await serve(
+			'Trace',
+			['tool', 'trace', '-http=localhost:0', profile],
+			/listening on (?<url>http:\/\/\S+)\r?\n/,
+			{
+				...process.env,
+				// go tool trace has no flag to not open a browser. It runs $BROWSER
+				// first, and does not try other browsers if that succeeds.
+				...(process.platform === 'win32' ? {} : { BROWSER: 'true' })
+			}
+		);
+		return;
+	}
+
 	const foundDot = await new Promise<boolean>((resolve, reject) => {
 		const proc = spawn(correctBinname('dot'), ['-V']);
 
@@ -170,10 +185,21 @@ async function show(profile: string) {
 		return;
 	}
 
-	const proc = spawn(getBinPath('go'), ['tool', 'pprof', '-http=:', '-no_browser', profile]);
+	await serve(
+		'Profile',
+		['tool', 'pprof', '-http=:', '-no_browser', profile],
+		/^Serving web UI on (?<url>http:\/\/localhost:\d+)\n/
+	);
+}
+
+// Runs a go tool that serves a web UI, and embeds the UI in a webview once the
+// tool prints its address to stderr. The tool is stopped when the webview is
+// closed.
+async function serve(title: string, args: string[], listening: RegExp, env?: NodeJS.ProcessEnv) {
+	const proc = spawn(getBinPath('go'), args, { env });
 	pprofProcesses.add(proc);
 
-	const port = await new Promise<string | undefined>((resolve, reject) => {
+	const url = await new Promise<string | undefined>((resolve, reject) => {
 		proc.on('error', (err) => {
 			pprofProcesses.delete(proc);
 			reject(err);
@@ -185,22 +211,22 @@ async function show(profile: string) {
 		});
 
 		let stderr = '';
-		function captureStdout(b: Buffer) {
+		function captureStderr(b: Buffer) {
 			stderr += b.toString('utf-8');
 
-			const m = stderr.match(/^Serving web UI on http:\/\/localhost:(?<port>\d+)\n/);
+			const m = stderr.match(listening);
 			if (!m) return;
 
-			resolve(m.groups?.port);
-			proc.stdout.off('data', captureStdout);
+			resolve(m.groups?.url);
+			proc.stderr.off('data', captureStderr);
 		}
 
-		proc.stderr.on('data', captureStdout);
+		proc.stderr.on('data', captureStderr);
 	});
 
-	const externalUri = await vscode.env.asExternalUri(vscode.Uri.parse(`http://localhost:${port}`));
+	const externalUri = await vscode.env.asExternalUri(vscode.Uri.parse(`${url}`));
 
-	const panel = vscode.window.createWebviewPanel('go.profile', 'Profile', ViewColumn.Active);
+	const panel = vscode.window.createWebviewPanel('go.profile', title, ViewColumn.Active);
 	panel.webview.options = { enableScripts: true };
 	panel.webview.html = `<html>
 		<head>
@@ -238,9 +264,11 @@ class Kind {
 	}
 
 	private constructor(
-		public readonly id: 'cpu' | 'mem' | 'mutex' | 'block',
+		public readonly id: 'cpu' | 'mem' | 'mutex' | 'block' | 'trace',
 		public readonly label: string,
-		public readonly flag: string
+		public readonly flag: string,
+		// The tool that shows the profile: pprof, or the execution trace viewer.
+		public readonly tool: 'pprof' | 'trace' = 'pprof'
 	) {
 		Kind.byID.set(id, this);
 	}
@@ -249,6 +277,7 @@ class Kind {
 	static readonly Memory = new Kind('mem', 'Memory', '--memprofile');
 	static readonly Mutex = new Kind('mutex', 'Mutex', '--mutexprofile');
 	static readonly Block = new Kind('block', 'Block', '--blockprofile');
+	static readonly Trace = new Kind('trace', 'Execution Trace', '--trace', 'trace');
 }
 
 class File {
@@ -282,7 +311,7 @@ class File {
 	}
 
 	async show() {
-		await show(getTempFilePath(`${this.name}.prof`));
+		await show(getTempFilePath(`${this.name}.prof`), this.kind);
 	}
 }
 
@@ -305,7 +334,7 @@ class ProfileTreeDataProvider implements TreeDataProvider<TreeElement> {
 			item.command = {
 				title: 'Open',
 				command: 'go.test.showProfileFile',
-				arguments: [element.uri]
+				arguments: [element.uri, element.kind.id]
 			};
 			return item;
 		}
@@ -25,6 +25,7 @@ import { getGoConfig } from '../config';
 import { dispose, disposeIfEmpty, FileSystem, GoTest, GoTestKind, findModuleName, isInTest, Workspace } from './utils';
 import { walk, WalkStop } from './walk';
 import { importsTestify } from '../testUtils';
+import { findTableTestCases } from '../subTestUtils';
 
 export type ProvideSymbols = (doc: TextDocument, token?: CancellationToken) => Thenable<DocumentSymbol[]>;
 
@@ -42,6 +43,8 @@ export class GoTestResolver {
 	public readonly isDynamicSubtest = new WeakSet<TestItem>();
 	public readonly isTestMethod = new WeakSet<TestItem>();
 	public readonly isTestSuiteFunc = new WeakSet<TestItem>();
+	public readonly isFuzzCorpusEntry = new WeakSet<TestItem>();
+	public readonly isTableTestCase = new WeakSet<TestItem>();
 	private readonly testSuites = new Map<string, TestSuite>();
 
 	constructor(
@@ -129,10 +132,45 @@ export class GoTestResolver {
 			await this.processDocument(doc);
 		}
 
+		// The user expanded a fuzz test - find the entries of its seed corpus
+		if (kind === 'fuzz') {
+			await this.resolveFuzzCorpus(item);
+		}
+
 		// TODO(firelizzard18): If uri.query is test or benchmark, this is where we
 		// would discover sub tests or benchmarks, if that is feasible.
 	}
 
+	// Create an item for each entry of the seed corpus of a fuzz test, which
+	// go test stores in testdata/fuzz/FuzzXxx, and dispose of the items of
+	// entries that were removed. go test runs each entry as a subtest, so the
+	// name of the item for testdata/fuzz/FuzzXxx/abc is FuzzXxx/abc.
+	async resolveFuzzCorpus(item: TestItem) {
+		const { kind, name } = GoTest.parseId(item.id);
+		if (kind !== 'fuzz' || !name || name.includes('/') || !item.uri) return;
+
+		const entries: string[] = [];
+		try {
+			const dir = Uri.joinPath(item.uri, '..', 'testdata', 'fuzz', name);
+			for (const [file, type] of await this.workspace.fs.readDirectory(dir)) {
+				if (type === FileType.File) entries.push(file);
+			}
+		} catch (_) {
+			// The fuzz test has no seed corpus
+		}
+
+		item.children.forEach((child) => {
+			if (this.isFuzzCorpusEntry.has(child) && !entries.includes(child.label)) {
+				dispose(this, child);
+			}
+		});
+		for (const entry of entries) {
+			const child = this.getOrCreateItem(item, entry, item.uri, 'fuzz', `${name}/${entry}`);
+			this.isDynamicSubtest.delete(child);
+			this.isFuzzCorpusEntry.add(child);
+		}
+	}
+
 	// Find test items related to the given resource
 	find(resource: Uri): TestItem[] {
 		const findStr = resource.toString();
@@ -407,6 +445,29 @@ export class GoTestResolver {
 		return suite;
 	}
 
+	// Create an item for each case of a table-driven test that is found in its
+	// source, with the range of its entry in the table, and dispose of the
+	// items of cases that were removed. An item that a run created for the
+	// subtest of a case is reused.
+	private processTableTestCases(doc: TextDocument, item: TestItem, symbol: DocumentSymbol) {
+		const { kind, name } = GoTest.parseId(item.id);
+		if (kind !== 'test' || !name) return;
+
+		const offset = doc.offsetAt(symbol.range.start);
+		const cases = findTableTestCases(doc.getText(symbol.range));
+		item.children.forEach((child) => {
+			if (this.isTableTestCase.has(child) && !cases.some((x) => x.name === child.label)) {
+				dispose(this, child);
+			}
+		});
+		for (const c of cases) {
+			const child = this.getOrCreateItem(item, c.name, doc.uri, 'test', `${name}/${c.name}`);
+			child.range = new Range(doc.positionAt(offset + c.start), doc.positionAt(offset + c.end));
+			this.isDynamicSubtest.delete(child);
+			this.isTableTestCase.add(child);
+		}
+	}
+
 	// Recursively process a Go AST symbol. If the symbol represents a test, fuzz test,
 	// benchmark, or example function, a test item will be created for it, if one
 	// does not already exist. If the symbol is not a function and contains
@@ -447,6 +508,7 @@ export class GoTestResolver {
 				existing.range = symbol.range;
 				this.relocateChildren(existing);
 			}
+			if (!suite) this.processTableTestCases(doc, existing, symbol);
 			return existing;
 		}
 
@@ -458,6 +520,9 @@ export class GoTestResolver {
 			symbol.name
 		);
 		item.range = symbol.range;
+		if (kind === 'fuzz') {
+			item.canResolveChildren = true;
+		}
 
 		if (suite) {
 			this.isTestMethod.add(item);
@@ -465,6 +530,8 @@ export class GoTestResolver {
 			return;
 		}
 
+		this.processTableTestCases(doc, item, symbol);
+
 		if (!importsTestify) {
 			return;
 		}
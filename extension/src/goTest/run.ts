@@ -12,6 +12,7 @@ import {
 	TestItem,
 	TestMessage,
 	TestRun,
+	TestRunProfile,
 	TestRunProfileKind,
 	TestRunRequest,
 	Uri,
@@ -21,22 +22,53 @@ import vscode = require('vscode');
 import { outputChannel } from '../goStatus';
 import { isModSupported } from '../goModules';
 import { getGoConfig } from '../config';
-import { getTestFlags, getTestFunctionsAndTestSuite, goTest, GoTestOutput } from '../testUtils';
+import {
+	extractInstanceTestName,
+	findAllTestSuiteRuns,
+	getCoverFlags,
+	getTestFlags,
+	getTestFunctionDebugArgs,
+	getTestFunctionsAndTestSuite,
+	getTestTags,
+	goTest,
+	GoTestOutput,
+	SuiteToTestMap
+} from '../testUtils';
 import { GoTestResolver } from './resolve';
-import { dispose, forEachAsync, GoTest, Workspace } from './utils';
+import { dispose, forEachAsync, GoTest, TestRunProxy, Workspace } from './utils';
 import { GoTestProfiler, ProfilingOptions } from './profile';
-import { debugTestAtCursor } from '../goTest';
+import { GoTestHistory } from './history';
+import { BenchmarkResults, GoBenchmarkHistory } from './benchmarks';
+import { debugTestsInPackage } from '../goTest';
+import { onDidReceiveDebuggeeOutput } from '../goDebugFactory';
 import { GoExtensionContext } from '../context';
+import cp = require('child_process');
 import path = require('path');
-import { escapeRegExp } from '../subTestUtils';
+import { escapeRegExp, groupTestNames, testNamesPattern } from '../subTestUtils';
+import { mergeCoverProfiles, readCoverProfile } from '../goCover';
+import { CoverProfile } from '../utils/coverProfile';
+import { addCoverage, GoFileCoverage, TestCoverageIndex } from './coverage';
+import { getBinPath, getTempFilePath } from '../util';
+import { fileExists } from '../utils/pathUtils';
+import { parseAssertionDiffs } from '../utils/assertionDiff';
+import { TestOutputParser } from '../utils/testOutputParser';
+import { Semaphore } from '../utils/mutex';
+import { parseBenchmarkResult } from '../utils/benchstat';
+import { affectedTestPackages, GoListPackage, parseGoListJSON, testDependencyDirs } from '../utils/goList';
+import { toolExecutionEnvironment } from '../goEnv';
+import { promisify } from 'util';
+
+const execFile = promisify(cp.execFile);
 
 let debugSessionID = 0;
+let coverProfileID = 0;
 
 type CollectedTest = { item: TestItem; explicitlyIncluded?: boolean };
 
 interface RunConfig {
 	goConfig: WorkspaceConfiguration;
 	flags: string[];
+	env?: { [key: string]: string };
 	isMod: boolean;
 	isBenchmark?: boolean;
 	cancel?: CancellationToken;
@@ -47,6 +79,70 @@ interface RunConfig {
 	concat: boolean;
 	record: Map<string, string[]>;
 	functions: Record<string, TestItem>;
+	// If set, coverage is collected and the cover profile of each go test
+	// invocation is added to this list.
+	coverProfiles?: CoverProfile[];
+	// If set, the coverage of each test is recorded in this index.
+	coverageIndex?: TestCoverageIndex;
+	// If set, the results of benchmarks are added to this.
+	benchmarkResults?: BenchmarkResults;
+}
+
+// RunProfileFlags are the flags, build tags and environment variables that a
+// run profile adds to those of the settings.
+interface RunProfileFlags {
+	flags?: string[];
+	tags?: string;
+	env?: { [key: string]: string };
+}
+
+// RunProfileConfig is a run profile defined in go.testExplorer.runProfiles.
+interface RunProfileConfig extends RunProfileFlags {
+	name: string;
+}
+
+// The run profiles that are always available, next to those defined in
+// go.testExplorer.runProfiles.
+const builtinRunProfiles: RunProfileConfig[] = [
+	{ name: 'Go (Race)', flags: ['-race'] },
+	{ name: 'Go (Shuffle)', flags: ['-shuffle=on'] },
+	{ name: 'Go (No Cache)', flags: ['-count=1'] }
+];
+
+// joinTags returns the build tags of the settings and of a run profile as one
+// comma separated list, since go test uses only the last -tags flag.
+function joinTags(...tags: (string | undefined)[]): string {
+	return tags
+		.reduce<string[]>((all, x) => all.concat((x ?? '').split(/[\s,]+/)), [])
+		.filter((x) => x)
+		.join(',');
+}
+
+// withTags replaces the -tags flags of flags, as -tags x or -tags=x, with one
+// -tags flag with their build tags, or those of the settings if there are none,
+// and the given tags. The flags after -args are passed to the test binary, and
+// are kept as they are.
+function withTags(flags: string[], settingsTags: string | undefined, tags: string): string[] {
+	const argsIdx = flags.indexOf('-args');
+	const end = argsIdx < 0 ? flags.length : argsIdx;
+	const rest: string[] = [];
+	const flagTags: string[] = [];
+	for (let i = 0; i < end; i++) {
+		const m = flags[i].match(/^--?tags(?:=(.*))?$/);
+		if (!m) rest.push(flags[i]);
+		else if (m[1] !== undefined) flagTags.push(m[1]);
+		else flagTags.push(flags[++i] ?? '');
+	}
+	const base = flagTags.length > 0 ? flagTags : [settingsTags];
+	return [...rest, '-tags', joinTags(...base, tags), ...flags.slice(end)];
+}
+
+// withCount replaces the -count flags of flags, such as the -count=1 of Go (No
+// Cache), with -count=count. Like -count=1, it disables the cache of test
+// results.
+function withCount(flags: string[], count: number): string[] {
+	const rest = flags.filter((x, i) => !/^--?count(=|$)/.test(x) && !/^--?count$/.test(flags[i - 1] ?? ''));
+	return [...rest, `-count=${count}`];
 }
 
 // TestRunOutput is a fake OutputChannel that forwards all test output to the test API
@@ -76,26 +172,123 @@ class TestRunOutput implements OutputChannel {
 	replace() {}
 }
 
+// IterationTestRun reports the results of one iteration of a stress run to
+// the run of all iterations, and prefixes failure messages with the iteration.
+class IterationTestRun extends TestRunProxy {
+	hasFailed = false;
+
+	constructor(run: TestRun, private readonly iteration: number) {
+		super(run);
+	}
+
+	failed(test: TestItem, message: TestMessage | readonly TestMessage[], duration?: number) {
+		this.hasFailed = true;
+		super.failed(test, this.annotate(message), duration);
+	}
+	errored(test: TestItem, message: TestMessage | readonly TestMessage[], duration?: number) {
+		this.hasFailed = true;
+		super.errored(test, this.annotate(message), duration);
+	}
+	end() {
+		// The run of all iterations is ended by the stress run.
+	}
+
+	private annotate(message: TestMessage | readonly TestMessage[]): readonly TestMessage[] {
+		const messages = message instanceof TestMessage ? [message] : message;
+		for (const m of messages) {
+			if (typeof m.message === 'string') {
+				m.message = `Iteration ${this.iteration}: ${m.message}`;
+			}
+		}
+		return messages;
+	}
+}
+
+// ShuffledTestRun adds the seed of go test -shuffle to the messages of the
+// tests that fail, so that the order of the tests can be reproduced.
+class ShuffledTestRun extends TestRunProxy {
+	private seed?: string;
+
+	// go test prints the seed before it runs the tests of the package.
+	consumeSeed(e: GoTestOutput) {
+		const m = !e.Test && e.Output?.match(/^-test\.shuffle (\d+)/);
+		if (m) this.seed = m[1];
+	}
+
+	failed(test: TestItem, message: TestMessage | readonly TestMessage[], duration?: number) {
+		super.failed(test, this.addSeed(message), duration);
+	}
+	errored(test: TestItem, message: TestMessage | readonly TestMessage[], duration?: number) {
+		super.errored(test, this.addSeed(message), duration);
+	}
+
+	private addSeed(message: TestMessage | readonly TestMessage[]): readonly TestMessage[] {
+		const messages = message instanceof TestMessage ? [message] : message;
+		if (!this.seed) return messages;
+		return [
+			...messages,
+			new TestMessage(`The tests ran in shuffled order. Run them with -shuffle=${this.seed} to reproduce it.`)
+		];
+	}
+}
+
+// PackageTestRun prefixes each line of the output of a package with the
+// package, so that the output of packages that run at the same time can be told
+// apart in the run.
+class PackageTestRun extends TestRunProxy {
+	private atLineStart = true;
+
+	constructor(run: TestRun, private readonly prefix: string) {
+		super(run);
+	}
+
+	appendOutput(output: string, location?: Location, test?: TestItem) {
+		if (!output) return;
+		const lines = output.split('\n').map((line, i) => {
+			return line && (i > 0 || this.atLineStart) ? `${this.prefix}${line}` : line;
+		});
+		this.atLineStart = output.endsWith('\n');
+		super.appendOutput(lines.join('\n'), location, test);
+	}
+	end() {
+		// The run is shared by all packages and ended by runTests.
+	}
+}
+
 export class GoTestRunner {
+	// The lines covered by each test, from the runs of the 'Go (Coverage by Test)' profile.
+	readonly coverageIndex = new TestCoverageIndex();
+
+	// The tests that failed in the last run that ended.
+	private lastFailed: TestItem[] = [];
+
+	// The run profiles defined in go.testExplorer.runProfiles.
+	private userRunProfiles: TestRunProfile[] = [];
+
 	constructor(
 		private readonly goCtx: GoExtensionContext,
 		private readonly workspace: Workspace,
 		private readonly ctrl: TestController,
 		private readonly resolver: GoTestResolver,
-		private readonly profiler: GoTestProfiler
+		private readonly profiler: GoTestProfiler,
+		private readonly history: GoTestHistory,
+		private readonly benchmarks: GoBenchmarkHistory
 	) {
 		ctrl.createRunProfile(
 			'Go',
 			TestRunProfileKind.Run,
 			async (request, token) => {
 				try {
-					await this.run(request, token);
+					if (request.continuous) await this.watch(request, token);
+					else await this.run(request, token);
 				} catch (error) {
 					const m = 'Failed to execute tests';
 					outputChannel.error(`${m}: ${error}`);
 					await vscode.window.showErrorMessage(m);
 				}
 			},
+			true,
+			undefined,
 			true
 		);
 
@@ -134,11 +327,109 @@ export class GoTestRunner {
 			if (!state) return;
 			this.profiler.options = state;
 		};
+
+		const coverage = ctrl.createRunProfile(
+			'Go (Coverage)',
+			TestRunProfileKind.Coverage,
+			async (request, token) => {
+				try {
+					await this.run(request, token, {}, true);
+				} catch (error) {
+					const m = 'Failed to execute tests';
+					outputChannel.error(`${m}: ${error}`);
+					await vscode.window.showErrorMessage(m);
+				}
+			},
+			true
+		);
+
+		coverage.loadDetailedCoverage = async (_, fileCoverage) => {
+			return fileCoverage instanceof GoFileCoverage ? fileCoverage.details : [];
+		};
+
+		// Runs each test separately, to find which tests cover each line.
+		const coverageByTest = ctrl.createRunProfile(
+			'Go (Coverage by Test)',
+			TestRunProfileKind.Coverage,
+			async (request, token) => {
+				try {
+					await this.run(request, token, {}, 'perTest');
+				} catch (error) {
+					const m = 'Failed to execute tests';
+					outputChannel.error(`${m}: ${error}`);
+					await vscode.window.showErrorMessage(m);
+				}
+			},
+			false
+		);
+		coverageByTest.loadDetailedCoverage = coverage.loadDetailedCoverage;
+
+		const fuzz = ctrl.createRunProfile(
+			'Go (Fuzz)',
+			TestRunProfileKind.Run,
+			async (request, token) => {
+				try {
+					await this.fuzz(request, token);
+				} catch (error) {
+					const m = 'Failed to execute fuzz tests';
+					outputChannel.error(`${m}: ${error}`);
+					await vscode.window.showErrorMessage(m);
+				}
+			},
+			false
+		);
+
+		fuzz.configureHandler = () => {
+			vscode.commands.executeCommand('workbench.action.openSettings', 'go.testExplorer.fuzzTime');
+		};
+
+		builtinRunProfiles.forEach((profile) => this.createRunProfile(profile));
+		this.updateRunProfiles();
+	}
+
+	// Replace the run profiles defined in go.testExplorer.runProfiles.
+	updateRunProfiles() {
+		this.userRunProfiles.forEach((x) => x.dispose());
+		const profiles = getGoConfig().get<RunProfileConfig[]>('testExplorer.runProfiles') ?? [];
+		this.userRunProfiles = profiles
+			.filter((x) => x.name)
+			.map((x) => {
+				const runProfile = this.createRunProfile(x);
+				runProfile.configureHandler = () => {
+					vscode.commands.executeCommand('workbench.action.openSettings', 'go.testExplorer.runProfiles');
+				};
+				return runProfile;
+			});
+	}
+
+	// Create a run profile that runs tests with the flags, build tags and
+	// environment of profile, continuously if requested.
+	private createRunProfile(profile: RunProfileConfig): TestRunProfile {
+		return this.ctrl.createRunProfile(
+			profile.name,
+			TestRunProfileKind.Run,
+			async (request, token) => {
+				try {
+					if (request.continuous) await this.watch(request, token, profile);
+					else await this.run(request, token, {}, false, profile);
+				} catch (error) {
+					const m = 'Failed to execute tests';
+					outputChannel.error(`${m}: ${error}`);
+					await vscode.window.showErrorMessage(m);
+				}
+			},
+			false,
+			undefined,
+			true
+		);
 	}
 
+	// Debug tests - TestController.runTest callback of the debug profile. The
+	// selected tests of a package are debugged together in one session, and
+	// the sessions of different packages are started one after the other.
 	async debug(request: TestRunRequest, token?: CancellationToken) {
 		if (!request.include) {
-			await vscode.window.showErrorMessage('The Go test explorer does not support debugging multiple tests');
+			await vscode.window.showErrorMessage('The Go test explorer does not support debugging all tests');
 			return;
 		}
 
@@ -149,28 +440,106 @@ export class GoTestRunner {
 		}
 
 		const tests = Array.from(collected.values()).reduce((a, b) => a.concat(b), []);
-		if (tests.length > 1) {
-			await vscode.window.showErrorMessage('The Go test explorer does not support debugging multiple tests');
-			return;
+		if (tests.length === 0) return;
+		const { name = '' } = GoTest.parseId(tests[0].item.id);
+		const run = this.createTestRun(request, collected, tests.length === 1 ? `Debug ${name}` : 'Debug tests');
+		for (const [pkg, items] of collected.entries()) {
+			if (token?.isCancellationRequested) break;
+			await this.debugPackage(
+				run,
+				pkg,
+				items.map((x) => x.item),
+				token
+			);
 		}
+		run.end();
+	}
 
-		const test = tests[0].item;
-		const { kind, name = '' } = GoTest.parseId(test.id);
-		if (!test.uri) return;
-		const doc = await vscode.workspace.openTextDocument(test.uri);
-		await doc.save();
+	// Debugs the tests of a package in one session, and reports their results
+	// from the output of the test binary, which is run with -test.v.
+	private async debugPackage(run: TestRun, pkg: TestItem, tests: TestItem[], token?: CancellationToken) {
+		const docs = new Map<string, vscode.TextDocument>();
+		for (const test of tests) {
+			if (!test.uri || docs.has(test.uri.toString())) continue;
+			const doc = await vscode.workspace.openTextDocument(test.uri);
+			await doc.save();
+			docs.set(test.uri.toString(), doc);
+		}
+		const doc = docs.values().next().value;
+		if (!doc) return;
+
+		let args: string[];
+		let label: string;
+		// The tests whose results are reported, by name. When several tests are
+		// debugged, the subtests are reported as part of their top-level test.
+		const functions: Record<string, TestItem> = {};
+		if (tests.length === 1) {
+			const { kind, name = '' } = GoTest.parseId(tests[0].id);
+			const { testFunctions, suiteToTest } = await getTestFunctionsAndTestSuite(
+				kind === 'benchmark',
+				this.goCtx,
+				doc
+			);
+			args = getTestFunctionDebugArgs(doc, escapeSubTestName(name), testFunctions, suiteToTest);
+			label = name;
+			functions[reportedTestName(name, suiteToTest)] = tests[0];
+		} else {
+			args = await this.debugArgs(tests, docs);
+			label = pkg.label;
+			const suites = new Map<string, SuiteToTestMap>();
+			for (let test of tests) {
+				while (test.parent && GoTest.parseId(test.parent.id).name) {
+					test = test.parent;
+				}
+				const { name = '' } = GoTest.parseId(test.id);
+				const doc = test.uri && docs.get(test.uri.toString());
+				let suiteToTest: SuiteToTestMap = {};
+				if (doc && extractInstanceTestName(name)) {
+					suiteToTest =
+						suites.get(doc.uri.toString()) ??
+						(await getTestFunctionsAndTestSuite(false, this.goCtx, doc)).suiteToTest;
+					suites.set(doc.uri.toString(), suiteToTest);
+				}
+				functions[reportedTestName(name, suiteToTest)] = test;
+			}
+		}
+		args.push('-test.v');
+		Object.values(functions).forEach((item) => run.enqueued(item));
 
-		const goConfig = getGoConfig(test.uri);
-		const { testFunctions, suiteToTest } = await getTestFunctionsAndTestSuite(
-			kind === 'benchmark',
-			this.goCtx,
-			doc
+		const goConfig = getGoConfig(doc.uri);
+		const id = `debug #${debugSessionID++} ${label}`;
+		const record = new Map<string, string[]>();
+		const concat = !!goConfig.get<boolean>('testExplorer.concatenateMessages');
+		const complete = new Set<TestItem>();
+		const parser = new TestOutputParser((e) =>
+			this.consumeGoTestEvent(run, functions, record, complete, concat, e)
 		);
+		const outputSub = onDidReceiveDebuggeeOutput(({ session, output }) => {
+			if (session.configuration.sessionID !== id) return;
+			run.appendOutput(output.replace(/\n/g, '\r\n'));
+			parser.write(output);
+		});
+		try {
+			await this.debugSession(doc, args, goConfig, id, token);
+		} finally {
+			outputSub.dispose();
+		}
 
-		// TODO Can we get output from the debug session, in order to check for
-		// run/pass/fail events?
+		// Tests that did not report a result did not run, for example because
+		// the session was stopped early. If there was no output at all, it went
+		// to a terminal and nothing is known about the results.
+		if (parser.flush()) {
+			this.markComplete(functions, complete, (x) => run.skipped(x));
+		}
+	}
 
-		const id = `debug #${debugSessionID++} ${name}`;
+	private async debugSession(
+		doc: vscode.TextDocument,
+		args: string[],
+		goConfig: WorkspaceConfiguration,
+		id: string,
+		token?: CancellationToken
+	) {
 		const subs: vscode.Disposable[] = [];
 		const sessionPromise = new Promise<DebugSession | null>((resolve) => {
 			subs.push(
@@ -192,19 +561,14 @@ export class GoTestRunner {
 			}
 		});
 
-		const run = this.ctrl.createTestRun(request, `Debug ${name}`);
-		if (!testFunctions) return;
-		const started = await debugTestAtCursor(doc, escapeSubTestName(name), testFunctions, suiteToTest, goConfig, id);
-
+		const started = await debugTestsInPackage(doc, args, goConfig, id);
 		if (!started) {
 			subs.forEach((s) => s.dispose());
-			run.end();
 			return;
 		}
 
 		const session = await sessionPromise;
 		if (!session) {
-			run.end();
 			return;
 		}
 
@@ -224,31 +588,94 @@ export class GoTestRunner {
 				sub.dispose();
 			}
 		});
-		run.end();
 	}
 
-	// Execute tests - TestController.runTest callback
-	async run(request: TestRunRequest, token?: CancellationToken, options: ProfilingOptions = {}): Promise<boolean> {
-		const collected = new Map<TestItem, CollectedTest[]>();
-		const files = new Set<TestItem>();
-		if (request.include) {
-			for (const item of request.include) {
-				await this.collectTests(item, true, request.exclude || [], collected, files);
+	// Returns the arguments of the test binary that select all the given tests
+	// of a package. If a single -test.run pattern cannot select the subtests
+	// together with the other tests, their top-level tests are selected instead.
+	// Testify suite methods are selected with -testify.m, and the tests that
+	// run their suites with -test.run.
+	private async debugArgs(tests: TestItem[], docs: Map<string, vscode.TextDocument>): Promise<string[]> {
+		const run = new Set<string>();
+		const names: string[] = [];
+		const bench = new Set<string>();
+		const methods = new Set<string>();
+		const suiteRunners = new Map<string, string[]>();
+		for (const test of tests) {
+			const { kind, name = '' } = GoTest.parseId(test.id);
+			if (kind === 'benchmark') {
+				bench.add(name);
+				continue;
 			}
-		} else {
-			const promises: Promise<unknown>[] = [];
-			this.ctrl.items.forEach((item) => {
-				const p = this.collectTests(item, true, request.exclude || [], collected, files);
-				promises.push(p);
-			});
-			await Promise.all(promises);
+
+			const method = extractInstanceTestName(name);
+			if (!method) {
+				run.add(name.split('/')[0]);
+				names.push(escapeSubTestName(name));
+				continue;
+			}
+			methods.add(method);
+
+			const doc = test.uri && docs.get(test.uri.toString());
+			if (!doc) continue;
+			let runners = suiteRunners.get(doc.uri.toString());
+			if (!runners) {
+				const { testFunctions, suiteToTest } = await getTestFunctionsAndTestSuite(false, this.goCtx, doc);
+				runners = findAllTestSuiteRuns(doc, testFunctions, suiteToTest).map((x) => x.name);
+				suiteRunners.set(doc.uri.toString(), runners);
+			}
+			runners.forEach((x) => run.add(x));
 		}
 
-		// Save all documents that contain a test we're about to run, to ensure `go
-		// test` has the latest changes
-		const fileUris = new Set(Array.from(files).map((x) => x.uri));
-		await Promise.all(this.workspace.textDocuments.filter((x) => fileUris.has(x.uri)).map((x) => x.save()));
+		const pattern =
+			(methods.size === 0 && testNamesPattern(names)) || (run.size > 0 && `^(${[...run].join('|')})$`);
+		const args = ['-test.run', pattern || 'a^'];
+		if (bench.size > 0) {
+			args.push('-test.bench', `^(${[...bench].join('|')})$`);
+		}
+		if (methods.size > 0) {
+			args.push('-testify.m', `^(${[...methods].join('|')})$`);
+		}
+		return args;
+	}
 
+	// Execute tests - TestController.runTest callback. If coverage is 'perTest',
+	// each test is run separately and its coverage is recorded in coverageIndex.
+	// The flags, build tags and environment of profile are added to those of
+	// the settings.
+	async run(
+		request: TestRunRequest,
+		token?: CancellationToken,
+		options: ProfilingOptions = {},
+		coverage: boolean | 'perTest' = false,
+		profile: RunProfileFlags = {}
+	): Promise<boolean> {
+		const collected = await this.collectRequest(request);
+		const run = this.createTestRun(request, collected);
+		const windowGoConfig = getGoConfig();
+		if (windowGoConfig.get<boolean>('testExplorer.showOutput')) {
+			await vscode.commands.executeCommand('testing.showMostRecentOutput');
+		}
+
+		const success = await this.runTests(run, collected, token, options, coverage, profile);
+
+		run.end();
+
+		this.profiler.postRun();
+
+		return success;
+	}
+
+	// Runs the collected tests, reporting their results to run. The flags,
+	// build tags and environment of profile apply to every go test invocation.
+	private async runTests(
+		run: TestRun,
+		collected: Map<TestItem, CollectedTest[]>,
+		token: CancellationToken | undefined,
+		options: ProfilingOptions,
+		coverage: boolean | 'perTest',
+		profile: RunProfileFlags = {}
+	): Promise<boolean> {
 		let hasBench = false,
 			hasNonBench = false;
 		for (const items of collected.values()) {
@@ -266,19 +693,25 @@ export class GoTestRunner {
 			return isInMod(item.parent);
 		}
 
-		const run = this.ctrl.createTestRun(request);
-		const windowGoConfig = getGoConfig();
-		if (windowGoConfig.get<boolean>('testExplorer.showOutput')) {
-			await vscode.commands.executeCommand('testing.showMostRecentOutput');
-		}
-
 		let success = true;
-		const subItems: string[] = [];
-		for (const [pkg, items] of collected.entries()) {
-			if (!pkg.uri) continue;
+		const coverProfiles: CoverProfile[] | undefined = coverage ? [] : undefined;
+		const coverageIndex = coverage === 'perTest' ? this.coverageIndex : undefined;
+		// Profiles and per-test coverage are collected for each test separately.
+		const separately = !!options.kind || !!coverageIndex;
+		const benchmarkResults = new BenchmarkResults();
+
+		// Packages are run concurrently, up to go.testExplorer.concurrency at a
+		// time. Each go test also builds and runs the tests of its package in
+		// parallel, so this is one by default. Profiles are captured one
+		// package at a time, so that other go test processes do not skew them.
+		const concurrency = options.kind ? 1 : getGoConfig().get<number>('testExplorer.concurrency') || 1;
+
+		const runPackage = async (pkg: TestItem, items: CollectedTest[]) => {
+			if (!pkg.uri) return;
 			const isMod = isInMod(pkg) || (await isModSupported(pkg.uri, true));
 			const goConfig = getGoConfig(pkg.uri);
-			const flags = getTestFlags(goConfig);
+			const testFlags = [...getTestFlags(goConfig), ...(profile.flags ?? [])];
+			const flags = profile.tags ? withTags(testFlags, getTestTags(goConfig), profile.tags) : testFlags;
 			const includeBench = getGoConfig(pkg.uri).get('testExplorer.alwaysRunBenchmarks');
 
 			// If any of the tests are test suite methods, add all test functions that call `suite.Run`
@@ -301,7 +734,6 @@ export class GoTestRunner {
 			const benchmarks: Record<string, TestItem> = {};
 			for (const { item, explicitlyIncluded } of items) {
 				const { kind, name = '' } = GoTest.parseId(item.id);
-				if (/[/#]/.test(name)) subItems.push(name);
 
 				// When the user clicks the run button on a package, they expect all
 				// of the tests within that package to run - they probably don't
@@ -335,38 +767,33 @@ export class GoTestRunner {
 			const record = new Map<string, string[]>();
 			const concat = !!goConfig.get<boolean>('testExplorer.concatenateMessages');
 
-			// https://github.com/golang/go/issues/39904
-			if (subItems.length > 0 && Object.keys(tests).length + Object.keys(benchmarks).length > 1) {
-				outputChannel.error(
-					`The following tests in ${pkg.uri} failed to run, as go test will only run a sub-test or sub-benchmark if it is by itself:`
-				);
-				Object.keys(tests)
-					.concat(Object.keys(benchmarks))
-					.forEach((x) => outputChannel.appendLine(x));
-				outputChannel.show();
-				vscode.window.showErrorMessage(
-					`Cannot run the selected tests in package ${pkg.label} - see the Go output panel for details`
-				);
-				continue;
-			}
-
 			const config = {
 				flags,
+				env: profile.env,
 				isMod,
 				goConfig,
 				cancel: token,
 
-				run,
+				// The output of packages that run at the same time is prefixed
+				// with the package, so that it can be told apart.
+				run: concurrency > 1 ? new PackageTestRun(run, `[${pkg.label}] `) : run,
 				options,
 				pkg,
 				record,
-				concat
+				concat,
+				coverProfiles,
+				coverageIndex,
+				benchmarkResults
 			};
 
-			// Run tests
-			if (!options.kind) {
-				const r = await this.runGoTest({ ...config, functions: tests });
-				if (!r) success = false;
+			// Run tests. A subtest cannot always be selected together with
+			// other tests (golang/go#39904), so the tests are run in as few
+			// invocations of go test as possible, all reporting to the same run.
+			if (!separately) {
+				for (const group of groupTestNames(Object.keys(tests))) {
+					const r = await this.runGoTest({ ...config, functions: pick(tests, group) });
+					if (!r) success = false;
+				}
 			} else {
 				for (const name in tests) {
 					const r = await this.runGoTest({ ...config, functions: { [name]: tests[name] } });
@@ -374,33 +801,350 @@ export class GoTestRunner {
 				}
 			}
 
-			// Run benchmarks
-			if (!options.kind) {
-				const r = await this.runGoTest({ ...config, isBenchmark: true, functions: benchmarks });
-				if (!r) success = false;
+			// Run benchmarks, as many times as set by
+			// go.testExplorer.benchmarkCount, so that their results can be
+			// compared with statistics.
+			const count = goConfig.get<number>('testExplorer.benchmarkCount') ?? 1;
+			const benchConfig = count > 1 ? { ...config, flags: withCount(flags, count) } : config;
+			if (!separately) {
+				for (const group of groupTestNames(Object.keys(benchmarks))) {
+					const r = await this.runGoTest({
+						...benchConfig,
+						isBenchmark: true,
+						functions: pick(benchmarks, group)
+					});
+					if (!r) success = false;
+				}
 			} else {
 				for (const name in benchmarks) {
 					const r = await this.runGoTest({
-						...config,
+						...benchConfig,
 						isBenchmark: true,
 						functions: { [name]: benchmarks[name] }
 					});
 					if (!r) success = false;
 				}
 			}
+		};
 
-			if (token?.isCancellationRequested) {
-				break;
+		const limit = new Semaphore(concurrency);
+		await Promise.all(
+			[...collected.entries()].map(async ([pkg, items]) => {
+				const unlock = await limit.lock();
+				try {
+					if (!token?.isCancellationRequested) await runPackage(pkg, items);
+				} finally {
+					unlock();
+				}
+			})
+		);
+
+		await this.benchmarks.save(benchmarkResults);
+
+		if (coverProfiles && coverProfiles.length > 0) {
+			addCoverage(
+				run,
+				coverProfiles.reduce((dst, src) => mergeCoverProfiles(dst, src))
+			);
+		}
+
+		return success;
+	}
+
+	// Continuous run - TestController.runTest callback of the Go profile when
+	// the request is continuous. Whenever a Go file is saved, the tests of the
+	// request in the packages whose tests depend on the package of the file are
+	// run, until the request is cancelled.
+	async watch(request: TestRunRequest, token: CancellationToken, profile: RunProfileFlags = {}) {
+		const changed = new Set<string>();
+		let running = false;
+		const runChanged = async () => {
+			if (running) return;
+			running = true;
+			try {
+				// Files saved while the tests run are handled after.
+				while (changed.size > 0 && !token.isCancellationRequested) {
+					const dirs = [...changed];
+					changed.clear();
+					await this.runAffected(request, dirs, token, profile);
+				}
+			} finally {
+				running = false;
+			}
+		};
+
+		const subscription = vscode.workspace.onDidSaveTextDocument((doc) => {
+			if (doc.uri.scheme !== 'file' || !doc.fileName.endsWith('.go')) return;
+			changed.add(path.dirname(doc.uri.fsPath));
+			runChanged().catch((error) => outputChannel.error(`Failed to run the affected tests: ${error}`));
+		});
+		try {
+			await new Promise<void>((resolve) => {
+				if (token.isCancellationRequested) resolve();
+				else token.onCancellationRequested(() => resolve());
+			});
+		} finally {
+			subscription.dispose();
+		}
+	}
+
+	// Run the tests of the request in the packages whose tests depend on a
+	// package in one of the changed directories.
+	private async runAffected(
+		request: TestRunRequest,
+		changedDirs: string[],
+		token: CancellationToken,
+		profile: RunProfileFlags
+	) {
+		const collected = await this.collectRequest(request);
+		const packages = await this.listTestDependencies([...collected.keys()]);
+		const affected = affectedTestPackages(packages, changedDirs);
+		for (const pkg of [...collected.keys()]) {
+			if (!pkg.uri || !affected.includes(pkg.uri.fsPath)) {
+				collected.delete(pkg);
+			}
+		}
+		if (collected.size === 0) return;
+
+		const run = this.createTestRun(request, collected);
+		try {
+			await this.runTests(run, collected, token, {}, false, profile);
+		} finally {
+			run.end();
+		}
+	}
+
+	// List the packages of the tests of the given packages, and all of their
+	// dependencies, with go list -deps -test. Packages are listed from the root
+	// of their module or workspace, so that each module is listed once.
+	private async listTestDependencies(pkgs: TestItem[]): Promise<GoListPackage[]> {
+		const roots = new Map<string, string[]>();
+		for (const pkg of pkgs) {
+			let root = pkg;
+			while (root.parent) root = root.parent;
+			if (!root.uri || !pkg.uri) continue;
+			const rel = path.relative(root.uri.fsPath, pkg.uri.fsPath);
+			roots.set(root.uri.fsPath, [...(roots.get(root.uri.fsPath) ?? []), rel ? `./${rel}` : '.']);
+		}
+
+		const goRuntimePath = getBinPath('go');
+		const packages: GoListPackage[] = [];
+		for (const [cwd, targets] of roots) {
+			const { stdout } = await execFile(goRuntimePath, ['list', '-e', '-deps', '-test', '-json', ...targets], {
+				cwd,
+				env: toolExecutionEnvironment(),
+				maxBuffer: 256 * 1024 * 1024
+			});
+			packages.push(...parseGoListJSON(stdout));
+		}
+		return packages;
+	}
+
+	// Runs the tests of the request repeatedly, each time with a new go test
+	// invocation, until they fail or have run the given number of times. The
+	// iteration that failed is shown in the output and in the failure messages.
+	async stress(request: TestRunRequest, iterations?: number, token?: CancellationToken): Promise<boolean> {
+		const collected = await this.collectRequest(request);
+		const run = this.createTestRun(request, collected, 'Run until failure');
+		if (getGoConfig().get<boolean>('testExplorer.showOutput')) {
+			await vscode.commands.executeCommand('testing.showMostRecentOutput');
+		}
+
+		const cancel = token ?? run.token;
+		let success = true;
+		for (let i = 1; success && (!iterations || i <= iterations) && !cancel.isCancellationRequested; i++) {
+			run.appendOutput(`=== Iteration ${i}${iterations ? ` of ${iterations}` : ''}\r\n`);
+			const iteration = new IterationTestRun(run, i);
+			// Without -count=1, go test would report the cached result of the
+			// first iteration.
+			success =
+				(await this.runTests(iteration, collected, cancel, {}, false, { flags: ['-count=1'] })) &&
+				!iteration.hasFailed;
+			if (!success) {
+				run.appendOutput(`=== Failed in iteration ${i}\r\n`);
 			}
 		}
 
 		run.end();
+		return success;
+	}
 
-		this.profiler.postRun();
+	// Returns the tests that failed in the last run that ended, except those
+	// that are no longer in the tree and those that run as part of a failed
+	// parent.
+	get failedTests(): TestItem[] {
+		const failed = this.lastFailed.filter((x) => this.resolver.all.get(x.id) === x);
+		return failed.filter((item) => {
+			for (let p = item.parent; p; p = p.parent) {
+				if (failed.includes(p)) return false;
+			}
+			return true;
+		});
+	}
+
+	// Fuzz tests - TestController.runTest callback of the fuzz profile. go test
+	// can only fuzz one test at a time, so each selected fuzz test is fuzzed by
+	// its own invocation, for the duration set by go.testExplorer.fuzzTime.
+	async fuzz(request: TestRunRequest, token?: CancellationToken): Promise<boolean> {
+		const collected = await this.collectRequest(request);
+		const targets = new Map<TestItem, TestItem>();
+		for (const [pkg, items] of collected.entries()) {
+			for (let { item } of items) {
+				if (GoTest.parseId(item.id).kind !== 'fuzz') continue;
+				// Fuzz the fuzz test of a selected corpus entry
+				while (item.parent && GoTest.parseId(item.parent.id).kind === 'fuzz') {
+					item = item.parent;
+				}
+				targets.set(item, pkg);
+			}
+		}
+		if (targets.size === 0) {
+			await vscode.window.showErrorMessage('No fuzz tests are selected');
+			return false;
+		}
+
+		const run = this.createTestRun(request, collected, 'Fuzz');
+		if (getGoConfig().get<boolean>('testExplorer.showOutput')) {
+			await vscode.commands.executeCommand('testing.showMostRecentOutput');
+		}
+		targets.forEach((_, item) => run.enqueued(item));
+
+		let success = true;
+		for (const [item, pkg] of targets.entries()) {
+			if (token?.isCancellationRequested) break;
+			if (!(await this.fuzzTest(run, pkg, item, token))) success = false;
+		}
+		run.end();
+		return success;
+	}
+
+	private async fuzzTest(run: TestRun, pkg: TestItem, item: TestItem, token?: CancellationToken) {
+		const { name = '' } = GoTest.parseId(item.id);
+		if (!pkg.uri) return false;
+		const goConfig = getGoConfig(pkg.uri);
+		// Fuzzing is limited by -fuzztime and not by go.testTimeout.
+		const flags = [...getTestFlags(goConfig), '-fuzz', `^${name}$`, '-timeout', '0'];
+		const fuzzTime = goConfig.get<string>('testExplorer.fuzzTime');
+		if (fuzzTime) {
+			flags.push('-fuzztime', fuzzTime);
+		}
+
+		const functions = { [name]: item };
+		const record = new Map<string, string[]>();
+		const complete = new Set<TestItem>();
+		const concat = !!goConfig.get<boolean>('testExplorer.concatenateMessages');
+		const outputChannel = new TestRunOutput(run);
+		let crasher: string | undefined;
+		// The number of failing inputs that the fuzzer wrote so far.
+		let crashers = 0;
+		let failed: GoTestOutput | undefined;
+		const success = await goTest({
+			goConfig,
+			flags,
+			isMod: await isModSupported(pkg.uri, true),
+			cancel: token,
+			outputChannel,
+			dir: pkg.uri.fsPath,
+			functions: [name],
+			goTestOutputConsumer: (e) => {
+				const progress = e.Output && parseFuzzProgress(e.Output);
+				if (progress) {
+					const summary = `${progress}, ${crashers} crasher${crashers === 1 ? '' : 's'}`;
+					run.appendOutput(`${name}: ${summary}\r\n`, undefined, item);
+				}
+				const m = e.Output?.match(/Failing input written to (\S+)/);
+				if (m) {
+					crasher = m[1];
+					crashers++;
+					const summary = `${crashers} crasher${crashers === 1 ? '' : 's'}, written to ${crasher}`;
+					run.appendOutput(`${name}: ${summary}\r\n`, undefined, item);
+				}
+
+				// The failing input is reported after the test fails, so the
+				// failure is reported once go test is done.
+				if (e.Action === 'fail' && e.Test === name) {
+					complete.add(item);
+					failed = e;
+					return;
+				}
+				this.consumeGoTestEvent(run, functions, record, complete, concat, e);
+			}
+		});
+
+		if (failed) {
+			const messages = this.parseOutput(item, record.get(item.id) || []);
+			if (crasher) {
+				const message = await this.fuzzCrashMessage(pkg.uri, crasher);
+				messages.push(message);
 
+				// Show the new corpus entry, which reproduces the crash
+				await this.resolver.resolveFuzzCorpus(item);
+				const entry = item.children.get(
+					GoTest.id(item.uri ?? pkg.uri, 'fuzz', `${name}/${path.basename(crasher)}`)
+				);
+				if (entry) run.failed(entry, message);
+			}
+			run.failed(item, messages, (failed.Elapsed ?? 0) * 1000);
+		} else if (!success) {
+			if (this.isBuildFailure(outputChannel.lines)) {
+				run.errored(item, { message: 'Compilation failed' });
+				item.error = 'Compilation failed';
+			} else {
+				this.markComplete(functions, complete, (x) => run.skipped(x));
+			}
+		}
 		return success;
 	}
 
+	// Returns a message with the minimized input that made a fuzz test fail,
+	// which go test writes to the seed corpus of the test.
+	private async fuzzCrashMessage(dir: Uri, file: string): Promise<TestMessage> {
+		const uri = Uri.joinPath(dir, file);
+		let input: string;
+		try {
+			input = (await this.workspace.fs.readFile(uri)).toString();
+		} catch (error) {
+			input = `<failed to read ${file}: ${error}>`;
+		}
+		const message = new TestMessage(`Failing input ${file}:\n${input}`);
+		message.location = new Location(uri, new Position(0, 0));
+		return message;
+	}
+
+	// Create a test run whose results are recorded in the test history. The
+	// dependencies of the packages of the collected tests are listed as the
+	// run starts, so that the history can tell whether their code changed.
+	private createTestRun(request: TestRunRequest, collected: Map<TestItem, CollectedTest[]>, name?: string): TestRun {
+		const deps = this.listTestDependencies([...collected.keys()]).then(testDependencyDirs, (error) => {
+			outputChannel.error(`Failed to list the dependencies of the tests: ${error}`);
+			return new Map<string, string[]>();
+		});
+		return this.history.track(this.ctrl.createTestRun(request, name), deps, (failed) => (this.lastFailed = failed));
+	}
+
+	// Collect the tests of a request, and save all documents that contain them
+	// to ensure `go test` has the latest changes.
+	private async collectRequest(request: TestRunRequest): Promise<Map<TestItem, CollectedTest[]>> {
+		const collected = new Map<TestItem, CollectedTest[]>();
+		const files = new Set<TestItem>();
+		if (request.include) {
+			for (const item of request.include) {
+				await this.collectTests(item, true, request.exclude || [], collected, files);
+			}
+		} else {
+			const promises: Promise<unknown>[] = [];
+			this.ctrl.items.forEach((item) => {
+				const p = this.collectTests(item, true, request.exclude || [], collected, files);
+				promises.push(p);
+			});
+			await Promise.all(promises);
+		}
+
+		const fileUris = new Set(Array.from(files).map((x) => x.uri));
+		await Promise.all(this.workspace.textDocuments.filter((x) => fileUris.has(x.uri)).map((x) => x.save()));
+		return collected;
+	}
+
 	// Recursively find all tests, benchmarks, and examples within a
 	// module/package/etc, minus exclusions. Map tests to the package they are
 	// defined in, and track files.
@@ -451,14 +1195,32 @@ export class GoTestRunner {
 	}
 
 	private async runGoTest(config: RunConfig): Promise<boolean> {
-		const { run, options, pkg, functions, record, concat, ...rest } = config;
+		const {
+			options,
+			pkg,
+			functions,
+			record,
+			concat,
+			coverProfiles,
+			coverageIndex,
+			benchmarkResults,
+			...rest
+		} = config;
+		const run = new ShuffledTestRun(config.run);
 		if (Object.keys(functions).length === 0) return true;
 
+		const flags = [...rest.flags];
 		if (options.kind) {
 			if (Object.keys(functions).length > 1) {
 				throw new Error('Profiling more than one test at once is unsupported');
 			}
-			rest.flags.push(...this.profiler.preRun(options, Object.values(functions)[0]));
+			flags.push(...this.profiler.preRun(options, Object.values(functions)[0]));
+		}
+
+		let coverProfilePath: string | undefined;
+		if (coverProfiles) {
+			coverProfilePath = getTempFilePath(`test-coverage-${coverProfileID++}.out`);
+			flags.push(...getCoverFlags(rest.goConfig, coverProfilePath));
 		}
 
 		const complete = new Set<TestItem>();
@@ -466,13 +1228,30 @@ export class GoTestRunner {
 
 		const success = await goTest({
 			...rest,
+			flags,
 			outputChannel,
 			dir: pkg.uri?.fsPath ?? '',
 			functions: Object.keys(functions)?.map((v) => escapeSubTestName(v)),
-			goTestOutputConsumer: rest.isBenchmark
-				? (e) => this.consumeGoBenchmarkEvent(run, functions, complete, e)
-				: (e) => this.consumeGoTestEvent(run, functions, record, complete, concat, e)
+			goTestOutputConsumer: (e) => {
+				run.consumeSeed(e);
+				if (rest.isBenchmark) this.consumeGoBenchmarkEvent(run, functions, complete, e, benchmarkResults);
+				else this.consumeGoTestEvent(run, functions, record, complete, concat, e);
+			}
 		});
+
+		// go test does not write a cover profile if the package fails to build.
+		if (coverProfiles && coverProfilePath && fileExists(coverProfilePath)) {
+			try {
+				const profile = await readCoverProfile(coverProfilePath, pkg.uri?.fsPath);
+				coverProfiles.push(profile);
+				for (const item of Object.values(functions)) {
+					coverageIndex?.set(item.id, profile);
+				}
+			} catch (error) {
+				outputChannel.appendLine(`Failed to read the cover profile ${coverProfilePath}: ${error}`);
+			}
+		}
+
 		if (success) {
 			if (rest.isBenchmark) {
 				this.markComplete(functions, complete, (x) => run.passed(x));
@@ -526,7 +1305,8 @@ export class GoTestRunner {
 		run: TestRun,
 		benchmarks: Record<string, TestItem>,
 		complete: Set<TestItem>,
-		e: GoTestOutput
+		e: GoTestOutput,
+		results?: BenchmarkResults
 	) {
 		if (e.Test) {
 			// Find (or create) the (sub)benchmark
@@ -574,6 +1354,8 @@ export class GoTestRunner {
 		// If output includes benchmark results, the benchmark passed. If output
 		// only includes the benchmark name, the benchmark is running.
 		if (m.groups?.result) {
+			const metrics = parseBenchmarkResult(m.groups.result);
+			if (metrics) results?.add(test, metrics);
 			run.passed(test);
 			complete.add(test);
 			vscode.commands.executeCommand('testing.showMostRecentOutput');
@@ -636,8 +1418,11 @@ export class GoTestRunner {
 					break;
 				}
 
+				// Diffs are kept apart, since their expected and actual
+				// values cannot be merged.
 				const merged = new Map<string, TestMessage>();
-				for (const { message, location } of messages) {
+				const diffs = messages.filter((x) => x.expectedOutput !== undefined);
+				for (const { message, location } of messages.filter((x) => x.expectedOutput === undefined)) {
 					const loc = `${location?.uri}:${location?.range.start.line}`;
 					if (merged.has(loc)) {
 						merged.get(loc)!.message += '' + message;
@@ -646,7 +1431,7 @@ export class GoTestRunner {
 					}
 				}
 
-				run.failed(test, Array.from(merged.values()), (e.Elapsed ?? 0) * 1000);
+				run.failed(test, [...diffs, ...merged.values()], (e.Elapsed ?? 0) * 1000);
 				break;
 			}
 
@@ -689,6 +1474,18 @@ export class GoTestRunner {
 		let current: Location | undefined;
 		if (!test.uri) return messages;
 		const dir = Uri.joinPath(test.uri, '..').fsPath;
+		const resolve = (file: string) => (path.isAbsolute(file) ? Uri.file(file) : Uri.file(path.join(dir, file)));
+
+		// Failures of testify and go-cmp assertions are shown as diffs of the
+		// expected and the actual value, and the rest of the output is parsed
+		// as usual.
+		const diffs = parseAssertionDiffs(output);
+		for (const diff of diffs) {
+			const message = TestMessage.diff(diff.message, diff.expected, diff.actual);
+			message.location = new Location(resolve(diff.file), new Position(diff.line - 1, 0));
+			messages.push(message);
+		}
+		output = output.filter((_, i) => !diffs.some((x) => x.start <= i && i < x.end));
 		// TODO(hyangah): handle panic messages specially.
 
 		// Extract the location info from output message.
@@ -705,10 +1502,7 @@ export class GoTestRunner {
 			// (?<message>.\n)$ - all remaining message up to $.
 			const m = line.match(/^.*\s+(?<file>\S+\.go):(?<line>\d+): (?<message>.*\n)$/);
 			if (m?.groups) {
-				const file =
-					m.groups.file && path.isAbsolute(m.groups.file)
-						? Uri.file(m.groups.file)
-						: Uri.file(path.join(dir, m.groups.file));
+				const file = resolve(m.groups.file);
 				const ln = Number(m.groups.line) - 1; // VSCode uses 0-based line numbering (internally)
 				current = new Location(file, new Position(ln, 0));
 				messages.push({ message: m.groups.message, location: current });
@@ -728,6 +1522,32 @@ export class GoTestRunner {
 	}
 }
 
+// parseFuzzProgress summarizes a progress line of go test -fuzz, such as
+// "fuzz: elapsed: 3s, execs: 1024 (341/sec), new interesting: 2 (total: 12)".
+function parseFuzzProgress(output: string): string | undefined {
+	const m = output.match(
+		/^fuzz: elapsed: (\S+), execs: (\d+) \((\d+)\/sec\), new interesting: (\d+) \(total: (\d+)\)/
+	);
+	if (!m) return;
+	const [, elapsed, execs, rate, interesting, total] = m;
+	return `${elapsed}, ${execs} execs (${rate}/sec), ${interesting} new interesting (${total} total)`;
+}
+
+function pick(items: Record<string, TestItem>, names: string[]): Record<string, TestItem> {
+	const picked: Record<string, TestItem> = {};
+	names.forEach((name) => (picked[name] = items[name]));
+	return picked;
+}
+
+// Returns the name go test reports for a test. Testify suite methods, such as
+// (*Suite).TestX, are reported as subtests of the test that runs the suite,
+// such as TestSuite/TestX.
+function reportedTestName(name: string, suiteToTest: SuiteToTestMap): string {
+	const method = extractInstanceTestName(name);
+	const runner = method && suiteToTest[name.replace(/^\(\*?([^)]+)\).*$/, '$1')];
+	return runner ? `${runner.name}/${method}` : name;
+}
+
 // escapeSubTestName escapes regexp-like metacharacters. Unlike
 // escapeSubTestName in subTestUtils.ts, this assumes the input are
 // coming from the test explorer test items whose names are computed from
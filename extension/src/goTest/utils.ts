@@ -127,3 +127,50 @@ export function findModuleName(goModContent: string): string {
 	}
 	return match.groups?.name ?? '';
 }
+
+// TestRunProxy forwards everything to a test run. Subclasses override the
+// methods whose calls they observe or change.
+export class TestRunProxy implements vscode.TestRun {
+	constructor(protected readonly run: vscode.TestRun) {}
+
+	get name() {
+		return this.run.name;
+	}
+	get token() {
+		return this.run.token;
+	}
+	get isPersisted() {
+		return this.run.isPersisted;
+	}
+	get onDidDispose() {
+		return this.run.onDidDispose;
+	}
+
+	enqueued(test: vscode.TestItem) {
+		this.run.enqueued(test);
+	}
+	started(test: vscode.TestItem) {
+		this.run.started(test);
+	}
+	skipped(test: vscode.TestItem) {
+		this.run.skipped(test);
+	}
+	failed(test: vscode.TestItem, message: vscode.TestMessage | readonly vscode.TestMessage[], duration?: number) {
+		this.run.failed(test, message, duration);
+	}
+	errored(test: vscode.TestItem, message: vscode.TestMessage | readonly vscode.TestMessage[], duration?: number) {
+		this.run.errored(test, message, duration);
+	}
+	passed(test: vscode.TestItem, duration?: number) {
+		this.run.passed(test, duration);
+	}
+	appendOutput(output: string, location?: vscode.Location, test?: vscode.TestItem) {
+		this.run.appendOutput(output, location, test);
+	}
+	addCoverage(fileCoverage: vscode.FileCoverage) {
+		this.run.addCoverage(fileCoverage);
+	}
+	end() {
+		this.run.end();
+	}
+}
@@ -27,3 +27,226 @@ export function escapeSubTestName(testFuncName: string, subTestName: string): st
 export function escapeRegExp(v: string) {
 	return v.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
+
+/**
+ * Returns an anchored pattern for the -run or -bench flag of `go test` that
+ * selects exactly the given tests, or undefined if no pattern can. The names
+ * are regular expressions, with the levels of subtests separated by '/'.
+ *
+ * go test splits the pattern at '/' and matches each part with the name of
+ * the (sub)test at the same level, so a pattern can only select a cartesian
+ * product of names, like TestA/X, TestA/Y, TestB/X and TestB/Y, and not a
+ * top-level test together with a subtest of another test (golang/go#39904).
+ *
+ * @param names Names of tests, e.g. ["TestA/X", "TestA/Y"]
+ */
+export function testNamesPattern(names: string[]): string | undefined {
+	const paths = names.map((name) => name.split('/'));
+	const depth = paths[0]?.length;
+	if (!depth || paths.some((p) => p.length !== depth)) {
+		return;
+	}
+	const levels = [...Array(depth).keys()].map((i) => [...new Set(paths.map((p) => p[i]))]);
+	if (levels.reduce((n, l) => n * l.length, 1) !== new Set(names).size) {
+		return;
+	}
+	return levels.map((l) => (l.length === 1 ? `^${l[0]}$` : `^(${l.join('|')})$`)).join('/');
+}
+
+/**
+ * Splits the given tests into groups that can each be selected by a single
+ * pattern of testNamesPattern. The tests are kept together if possible, and
+ * otherwise grouped by their parent test.
+ *
+ * @param names Names of tests, e.g. ["TestA", "TestB/X"]
+ */
+export function groupTestNames(names: string[]): string[][] {
+	if (names.length === 0 || testNamesPattern(names)) {
+		return [names];
+	}
+	const groups = new Map<string, string[]>();
+	for (const name of names) {
+		const parent = name.substring(0, Math.max(name.lastIndexOf('/'), 0));
+		groups.set(parent, [...(groups.get(parent) ?? []), name]);
+	}
+	return [...groups.values()];
+}
+
+// TableTestCase is a case of a table-driven test. start and end are the
+// offsets of its entry in the table.
+export interface TableTestCase {
+	name: string;
+	start: number;
+	end: number;
+}
+
+/**
+ * Finds the cases of a table-driven test, whose subtests are named after a
+ * field of the entries of a slice, or after the keys of a map:
+ *
+ *	tests := []struct{ name string }{{name: "a"}, {"b"}}
+ *	for _, tt := range tests {
+ *		t.Run(tt.name, func(t *testing.T) { ... })
+ *	}
+ *
+ *	tests := map[string]struct{}{"a": {}}
+ *	for name, tt := range tests {
+ *		t.Run(name, func(t *testing.T) { ... })
+ *	}
+ *
+ * The names are rewritten as go test does for subtests. Cases whose name is
+ * not a string literal are omitted.
+ *
+ * @param source The source of the test function.
+ */
+export function findTableTestCases(source: string): TableTestCase[] {
+	const cases: TableTestCase[] = [];
+	const reLoop = /\bfor\s+(?:(\w+)\s*,\s*)?(\w+)\s*:?=\s*range\s+(\w+)\s*\{/g;
+	for (let loop = reLoop.exec(source); loop; loop = reLoop.exec(source)) {
+		const [, key, value, table] = loop;
+		const body = source.substring(loop.index, matchingBracket(source, reLoop.lastIndex - 1));
+		const run = body.match(/\b\w+\.Run\(\s*(\w+)(?:\.(\w+))?\s*,/);
+		if (!run) continue;
+
+		const byKey = run[1] === key && !run[2];
+		const field = run[1] === value ? run[2] : undefined;
+		if (!byKey && !field) continue;
+
+		const def = findDefinition(source, table, loop.index);
+		if (def === undefined) continue;
+		const literal = compositeLiteral(source, def);
+		if (!literal) continue;
+
+		const names = new Map<string, number>();
+		for (const [start, end] of splitTopLevel(source, literal.start, literal.end)) {
+			const raw = byKey
+				? stringLiteral(source.substring(start, end))
+				: entryName(source, start, end, field!, literal.fields);
+			if (raw === undefined) continue;
+
+			// go test replaces spaces in the names of subtests with underscores,
+			// and numbers duplicate names.
+			let name = raw.replace(/\s/g, '_') || '#00';
+			const n = names.get(name) ?? 0;
+			names.set(name, n + 1);
+			if (n > 0) name = `${name}#${String(n).padStart(2, '0')}`;
+			if (!name.includes('/')) cases.push({ name, start, end });
+		}
+	}
+	return cases;
+}
+
+// Returns the offset of the type of the composite literal that defines the
+// table, from the nearest definition before the loop at the given offset that
+// is still in scope at the loop.
+function findDefinition(source: string, table: string, loop: number): number | undefined {
+	const reDef = new RegExp(`\\b${table}\\s*:?=\\s*(?:map\\[string\\]|\\[\\])`, 'g');
+	const defs: RegExpExecArray[] = [];
+	for (let def = reDef.exec(source); def && def.index < loop; def = reDef.exec(source)) {
+		defs.push(def);
+	}
+	for (const def of defs.reverse()) {
+		let depth = 0;
+		for (let i = def.index; i < loop && depth >= 0; i = skipLiteral(source, i) + 1) {
+			if ('{[('.includes(source[i])) depth++;
+			else if ('}])'.includes(source[i])) depth--;
+		}
+		if (depth >= 0) return def.index + def[0].length;
+	}
+	return;
+}
+
+// Returns the range of the entries of a composite literal whose type starts at
+// the given offset, and the fields of the type if it is a struct literal.
+function compositeLiteral(
+	source: string,
+	offset: number
+): { start: number; end: number; fields?: string[] } | undefined {
+	let fields: string[] | undefined;
+	let open = source.indexOf('{', offset);
+	if (open < 0) return;
+	const struct = source.substring(offset, open).match(/\bstruct\s*$/);
+	if (struct) {
+		const close = matchingBracket(source, open);
+		fields = source
+			.substring(open + 1, close)
+			.split(/[;\n]/)
+			.map((x) => x.trim().match(/^(\w+(?:\s*,\s*\w+)*)\s/)?.[1])
+			.reduce((all: string[], x) => (x ? [...all, ...x.split(/\s*,\s*/)] : all), []);
+		open = source.indexOf('{', close + 1);
+		if (open < 0) return;
+	}
+	return { start: open + 1, end: matchingBracket(source, open), fields };
+}
+
+// Returns the name of an entry of a slice of structs, from the given field,
+// either keyed or in order.
+function entryName(source: string, start: number, end: number, field: string, fields?: string[]) {
+	const open = source.indexOf('{', start);
+	if (open < 0 || open >= end) return;
+	const values = splitTopLevel(source, open + 1, matchingBracket(source, open));
+	const keyed = values.map(([s, e]) => source.substring(s, e).match(/^(\w+)\s*:\s*([^]*)$/));
+	if (keyed.some((m) => m)) {
+		const m = keyed.find((m) => m?.[1] === field);
+		return m ? stringLiteral(m[2]) : undefined;
+	}
+	const i = fields?.indexOf(field) ?? -1;
+	return i >= 0 && i < values.length ? stringLiteral(source.substring(...values[i])) : undefined;
+}
+
+// Returns the value of a Go string literal, or of the key of a map entry that
+// is one.
+function stringLiteral(text: string): string | undefined {
+	const m = text.match(/^(?:"((?:[^"\\\n]|\\.)*)"|`([^`]*)`)\s*(?::|$)/);
+	if (!m) return;
+	if (m[2] !== undefined) return m[2];
+	try {
+		return JSON.parse(`"${m[1]}"`);
+	} catch {
+		return m[1];
+	}
+}
+
+// Splits the source between start and end at the commas that are not nested
+// in brackets, and returns the trimmed ranges of the parts that are not empty.
+function splitTopLevel(source: string, start: number, end: number): [number, number][] {
+	const parts: [number, number][] = [];
+	const push = (s: number, e: number) => {
+		while (s < e && /\s/.test(source[s])) s++;
+		while (e > s && /\s/.test(source[e - 1])) e--;
+		if (s < e) parts.push([s, e]);
+	};
+	let from = start;
+	for (let i = start; i < end; i = skipLiteral(source, i) + 1) {
+		if ('{[('.includes(source[i])) {
+			i = matchingBracket(source, i);
+		} else if (source[i] === ',') {
+			push(from, i);
+			from = i + 1;
+		}
+	}
+	push(from, end);
+	return parts;
+}
+
+// Returns the offset of the bracket that closes the one at the given offset,
+// or the length of the source if it is not closed.
+function matchingBracket(source: string, offset: number): number {
+	let depth = 0;
+	for (let i = offset; i < source.length; i = skipLiteral(source, i) + 1) {
+		if ('{[('.includes(source[i])) depth++;
+		else if ('}])'.includes(source[i]) && --depth === 0) return i;
+	}
+	return source.length;
+}
+
+// A string, rune or comment.
+const reLiteral = /"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|`[^`]*`|\/\/[^\n]*|\/\*[^]*?\*\//y;
+
+// If a string, rune or comment starts at the given offset, returns the offset
+// of its last character, and otherwise the offset itself.
+function skipLiteral(source: string, offset: number): number {
+	reLiteral.lastIndex = offset;
+	const m = reLiteral.exec(source);
+	return m ? offset + m[0].length - 1 : offset;
+}
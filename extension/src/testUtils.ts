@@ -28,6 +28,7 @@ import {
 } from './utils/pathUtils';
 import { killProcessTree } from './utils/processUtils';
 import { GoExtensionContext } from './context';
+import { testNamesPattern } from './subTestUtils';
 
 const testOutputChannel = vscode.window.createOutputChannel('Go Tests');
 const STATUS_BAR_ITEM_NAME = 'Go Test Cancel';
@@ -69,6 +70,11 @@ export interface TestConfig {
 	 * Test flags to override the testFlags and buildFlags from goConfig.
 	 */
 	flags: string[];
+	/**
+	 * Environment variables to set in addition to those of the testEnvVars
+	 * and testEnvFile settings.
+	 */
+	env?: { [key: string]: string };
 	/**
 	 * Specific function names to test.
 	 */
@@ -427,7 +433,7 @@ export async function goTest(testconfig: TestConfig): Promise<boolean> {
 	let testResult = false;
 	try {
 		testResult = await new Promise<boolean>(async (resolve, reject) => {
-			const testEnvVars = getTestEnvVars(testconfig.goConfig);
+			const testEnvVars = { ...getTestEnvVars(testconfig.goConfig), ...testconfig.env };
 			const tp = cp.spawn(goRuntimePath, args, { env: testEnvVars, cwd: testconfig.dir });
 			const outBuf = new LineBuffer();
 			const errBuf = new LineBuffer();
@@ -557,9 +563,9 @@ export function computeTestCommand(
 		args.push('-timeout', testconfig.goConfig['testTimeout']);
 	}
 
-	// tags flags only if user didn't set -tags yet.
+	// tags flags only if user didn't set -tags yet, as -tags x or -tags=x.
 	const testTags: string = getTestTags(testconfig.goConfig);
-	if (testTags && userFlags.indexOf('-tags') === -1) {
+	if (testTags && !userFlags.some((x) => /^--?tags(=|$)/.test(x))) {
 		args.push('-tags', testTags);
 	}
 
@@ -567,21 +573,7 @@ export function computeTestCommand(
 	let tmpCoverPath: string | undefined;
 	if (testconfig.applyCodeCoverage) {
 		tmpCoverPath = getTempFilePath('go-code-cover');
-		args.push('-coverprofile=' + tmpCoverPath);
-		const coverMode = testconfig.goConfig['coverMode'];
-		switch (coverMode) {
-			case 'default':
-				break;
-			case 'set':
-			case 'count':
-			case 'atomic':
-				args.push('-covermode', coverMode);
-				break;
-			default:
-				vscode.window.showWarningMessage(
-					`go.coverMode=${coverMode} is illegal. Use 'set', 'count', 'atomic', or 'default'.`
-				);
-		}
+		args.push(...getCoverFlags(testconfig.goConfig, tmpCoverPath));
 	}
 
 	// all other test run/benchmark flags
@@ -622,6 +614,30 @@ export function computeTestCommand(
 	};
 }
 
+/**
+ * Returns the flags to generate a cover profile with the -covermode configured by go.coverMode.
+ * @param goConfig Configuration for the Go extension
+ * @param coverProfilePath Path to write the cover profile to
+ */
+export function getCoverFlags(goConfig: vscode.WorkspaceConfiguration, coverProfilePath: string): string[] {
+	const flags = ['-coverprofile=' + coverProfilePath];
+	const coverMode = goConfig['coverMode'];
+	switch (coverMode) {
+		case 'default':
+			break;
+		case 'set':
+		case 'count':
+		case 'atomic':
+			flags.push('-covermode', coverMode);
+			break;
+		default:
+			vscode.window.showWarningMessage(
+				`go.coverMode=${coverMode} is illegal. Use 'set', 'count', 'atomic', or 'default'.`
+			);
+	}
+	return flags;
+}
+
 function processTestResultLineInJSONMode(
 	pkgMap: Map<string, string>,
 	currentGoWorkspace: string,
@@ -720,7 +736,10 @@ function targetArgs(testconfig: TestConfig): Array<string> {
 			if (testconfig.functions.length === 1) {
 				params = ['-bench', util.format('^%s$', testconfig.functions[0])];
 			} else {
-				params = ['-bench', util.format('^(%s)$', testconfig.functions.join('|'))];
+				params = [
+					'-bench',
+					testNamesPattern(testconfig.functions) ?? util.format('^(%s)$', testconfig.functions.join('|'))
+				];
 			}
 		} else {
 			let testFunctions = testconfig.functions;
@@ -738,7 +757,10 @@ function targetArgs(testconfig: TestConfig): Array<string> {
 				if (testFunctions.length === 1) {
 					params = params.concat(['-run', util.format('^%s$', testFunctions[0])]);
 				} else {
-					params = params.concat(['-run', util.format('^(%s)$', testFunctions.join('|'))]);
+					params = params.concat([
+						'-run',
+						testNamesPattern(testFunctions) ?? util.format('^(%s)$', testFunctions.join('|'))
+					]);
 				}
 			}
 			if (testifyMethods.length > 0) {
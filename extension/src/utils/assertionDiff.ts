@@ -0,0 +1,150 @@
+/*---------------------------------------------------------
+ * Copyright 2024 The Go Authors. All rights reserved.
+ * Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------*/
+
+// AssertionDiff is a failed assertion of a test that compares an expected and
+// an actual value.
+export interface AssertionDiff {
+	// the index of the first output line of the failure, and of the line after
+	// its last one.
+	start: number;
+	end: number;
+	message: string;
+	expected: string;
+	actual: string;
+	// the file and 1-based line of the assertion, as reported in the output.
+	file: string;
+	line: number;
+}
+
+// A failure reported by t.Error and friends: the first line is prefixed with
+// the location of the call, and the following lines are indented by four more
+// spaces than the first.
+const reFailure = /^(?<indent> *)(?<file>\S+\.go):(?<line>\d+): (?<message>.*)$/;
+
+// A line of a testify failure, either "\tLabel:   \tcontent" or the
+// continuation "\t         \tcontent".
+const reTestifyLine = /^\t(?:(?<label>[A-Za-z][A-Za-z ]*):)? *\t(?<content>.*)$/;
+
+// The header of a go-cmp diff, which names the side of each marker, such as
+// "mismatch (-want +got):".
+const reCmpHeader = /\(-(?<removed>\w+) \+(?<added>\w+)\):?\s*$/;
+
+// A line of a go-cmp diff. go-cmp randomly uses a non-breaking space after
+// the marker to discourage parsing its output.
+const reCmpLine = /^(?<marker>[-+ ])[ \u00a0](?<content>.*)$/;
+
+/**
+ * Finds the failures in the output of a test that show the expected and the
+ * actual value of an assertion: testify's "Error Trace/Error/expected/actual"
+ * blocks, and go-cmp's "-want +got" diffs.
+ *
+ * @param output The output of the test, one line per element.
+ */
+export function parseAssertionDiffs(output: string[]): AssertionDiff[] {
+	const lines = output.map((x) => x.replace(/\r?\n$/, ''));
+	const diffs: AssertionDiff[] = [];
+	for (let start = 0; start < lines.length; start++) {
+		const m = lines[start].match(reFailure);
+		if (!m?.groups) continue;
+
+		const indent = ' '.repeat(m.groups.indent.length + 4);
+		let end = start + 1;
+		while (end < lines.length && lines[end].startsWith(indent)) end++;
+
+		const body = lines.slice(start + 1, end).map((x) => x.substring(indent.length));
+		const diff =
+			parseTestify(body) ?? parseCmp(m.groups.message, body, { file: m.groups.file, line: +m.groups.line });
+		if (diff) {
+			diffs.push({ start, end, ...diff });
+			start = end - 1;
+		}
+	}
+	return diffs;
+}
+
+type Diff = Omit<AssertionDiff, 'start' | 'end'>;
+
+function parseTestify(body: string[]): Diff | undefined {
+	const fields = new Map<string, string[]>();
+	let label: string | undefined;
+	for (const line of body) {
+		if (line === '') continue;
+		const m = line.match(reTestifyLine);
+		if (!m?.groups) return;
+		if (m.groups.label) {
+			label = m.groups.label;
+			fields.set(label, []);
+		}
+		if (label) fields.get(label)!.push(m.groups.content);
+	}
+
+	// The first entry of the trace is the call of the assertion.
+	const trace = fields.get('Error Trace')?.[0]?.match(/^(?<file>\S+\.go):(?<line>\d+)/);
+	const error = fields.get('Error');
+	if (!trace?.groups || !error) return;
+
+	const expected: string[] = [];
+	const actual: string[] = [];
+	let value: string[] | undefined;
+	for (const line of error.slice(1)) {
+		if (line.startsWith('expected: ')) {
+			value = expected;
+			value.push(line.substring('expected: '.length));
+		} else if (line.startsWith('actual  : ')) {
+			value = actual;
+			value.push(line.substring('actual  : '.length));
+		} else if (line === '' || line === 'Diff:') {
+			value = undefined;
+		} else {
+			value?.push(line);
+		}
+	}
+	if (expected.length === 0 || actual.length === 0) return;
+
+	const messages = fields.get('Messages') ?? [];
+	return {
+		message: [error[0].trim(), ...messages].join('\n'),
+		expected: unquote(expected.join('\n')),
+		actual: unquote(actual.join('\n')),
+		file: trace.groups.file,
+		line: +trace.groups.line
+	};
+}
+
+function parseCmp(header: string, body: string[], location: { file: string; line: number }): Diff | undefined {
+	const m = header.match(reCmpHeader);
+	if (!m?.groups || body.length === 0) return;
+
+	const removed: string[] = [];
+	const added: string[] = [];
+	for (const line of body) {
+		if (line === '') continue;
+		const l = line.match(reCmpLine);
+		if (!l?.groups) return;
+		if (l.groups.marker !== '+') removed.push(l.groups.content);
+		if (l.groups.marker !== '-') added.push(l.groups.content);
+	}
+
+	// By convention, the removed lines are what was wanted, as in
+	// cmp.Diff(want, got), unless the header says otherwise.
+	const swap = /^(got|actual|have)$/i.test(m.groups.removed) || /^(want|expected|exp)$/i.test(m.groups.added);
+	return {
+		message: header,
+		expected: (swap ? added : removed).join('\n'),
+		actual: (swap ? removed : added).join('\n'),
+		...location
+	};
+}
+
+// testify formats strings as quoted Go strings, which are shown unquoted so
+// that the lines of multi-line strings are compared.
+function unquote(value: string): string {
+	if (!/^".*"$/.test(value)) return value;
+	try {
+		return JSON.parse(value);
+	} catch {
+		return value;
+	}
+}
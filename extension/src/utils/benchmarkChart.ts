@@ -0,0 +1,97 @@
+/*---------------------------------------------------------
+ * Copyright 2024 The Go Authors. All rights reserved.
+ * Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------*/
+
+import { summarize } from './benchstat';
+import { xmlEscape } from './xmlUtils';
+
+// TrendPoint is the samples of one unit of a benchmark in one stored run.
+export interface TrendPoint {
+	// the git commit the run was made at, which labels the point where it
+	// changes from the previous point.
+	commit?: string;
+	// describes the run in the tooltip of the point.
+	description: string;
+	samples: number[];
+}
+
+const width = 720;
+const height = 240;
+const margin = { top: 20, right: 20, bottom: 50, left: 70 };
+
+/**
+ * Renders an SVG line chart of the mean of each point, with a bar from the
+ * smallest to the largest sample, and a marker where the commit changes. The
+ * elements have the classes axis, line, range, point and commit, so that the
+ * page can style them.
+ *
+ * @param unit The unit of the samples, such as "ns/op".
+ * @param points The points, oldest first.
+ */
+export function renderTrendChart(unit: string, points: TrendPoint[]): string {
+	const values = points.reduce<number[]>((all, x) => all.concat(x.samples), []);
+	let min = Math.min(...values);
+	let max = Math.max(...values);
+	const pad = (max - min) * 0.1 || Math.abs(max) * 0.1 || 1;
+	min = Math.max(0, min - pad);
+	max += pad;
+
+	const plotWidth = width - margin.left - margin.right;
+	const plotHeight = height - margin.top - margin.bottom;
+	const x = (i: number) =>
+		margin.left + (points.length === 1 ? plotWidth / 2 : (i * plotWidth) / (points.length - 1));
+	const y = (v: number) => margin.top + plotHeight - ((v - min) * plotHeight) / (max - min);
+
+	const elements: string[] = [];
+	const bottom = margin.top + plotHeight;
+	elements.push(
+		`<line class="axis" x1="${margin.left}" y1="${margin.top}" x2="${margin.left}" y2="${bottom}"/>`,
+		`<line class="axis" x1="${margin.left}" y1="${bottom}" x2="${width - margin.right}" y2="${bottom}"/>`,
+		`<text class="axis" x="${margin.left - 8}" y="${margin.top - 8}" text-anchor="end">${xmlEscape(unit)}</text>`
+	);
+	for (let i = 0; i <= 4; i++) {
+		const v = min + ((max - min) * i) / 4;
+		elements.push(
+			`<text class="axis" x="${margin.left - 8}" y="${y(v).toFixed(1)}" text-anchor="end" ` +
+				`dominant-baseline="middle">${formatValue(v)}</text>`
+		);
+	}
+
+	points.forEach((point, i) => {
+		if (!point.commit || point.commit === points[i - 1]?.commit) return;
+		const px = x(i).toFixed(1);
+		elements.push(
+			`<line class="commit" x1="${px}" y1="${margin.top}" x2="${px}" y2="${bottom}"/>`,
+			`<text class="commit" x="${px}" y="${bottom + 8}" text-anchor="end" ` +
+				`transform="rotate(-45 ${px} ${bottom + 8})">${xmlEscape(point.commit)}</text>`
+		);
+	});
+
+	const means = points.map((point) => summarize(point.samples).mean);
+	const line = means.map((mean, i) => `${x(i).toFixed(1)},${y(mean).toFixed(1)}`).join(' ');
+	elements.push(`<polyline class="line" points="${line}"/>`);
+
+	points.forEach((point, i) => {
+		const px = x(i).toFixed(1);
+		const lo = Math.min(...point.samples);
+		const hi = Math.max(...point.samples);
+		if (lo !== hi) {
+			elements.push(
+				`<line class="range" x1="${px}" y1="${y(lo).toFixed(1)}" x2="${px}" y2="${y(hi).toFixed(1)}"/>`
+			);
+		}
+		const title = `${point.description}\n${formatValue(means[i])} ${unit} (n=${point.samples.length})`;
+		elements.push(
+			`<circle class="point" cx="${px}" cy="${y(means[i]).toFixed(1)}" r="4">` +
+				`<title>${xmlEscape(title)}</title></circle>`
+		);
+	});
+
+	const size = `viewBox="0 0 ${width} ${height}" width="${width}" height="${height}"`;
+	return `<svg xmlns="http://www.w3.org/2000/svg" ${size}>${elements.join('')}</svg>`;
+}
+
+function formatValue(v: number): string {
+	return Number(v.toPrecision(4)).toString();
+}
@@ -0,0 +1,231 @@
+/*---------------------------------------------------------
+ * Copyright 2024 The Go Authors. All rights reserved.
+ * Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------*/
+
+// BenchmarkMetrics are the measurements of one run of a benchmark, by unit,
+// such as { 'ns/op': 123.4, 'B/op': 64, 'allocs/op': 2 }.
+export type BenchmarkMetrics = Record<string, number>;
+
+// BenchmarkSamples are the measurements of all runs of a benchmark, by unit,
+// as collected with -count.
+export type BenchmarkSamples = Record<string, number[]>;
+
+// BenchmarkComparison compares the samples of one unit of a benchmark in two
+// sets of runs.
+export interface BenchmarkComparison {
+	name: string;
+	unit: string;
+	base: SampleSummary;
+	head: SampleSummary;
+	// the change of the mean from base to head, in percent.
+	delta: number;
+	// the p-value of Welch's t-test, or undefined if there are not enough
+	// samples.
+	p?: number;
+	// whether the means differ at the significance level.
+	significant: boolean;
+}
+
+export interface SampleSummary {
+	n: number;
+	mean: number;
+	variance: number;
+}
+
+/**
+ * Parses the result of a benchmark, which follows its name on the line that go
+ * test prints when the benchmark completes, such as
+ * "123456    123.4 ns/op    64 B/op    2 allocs/op".
+ */
+export function parseBenchmarkResult(result: string): BenchmarkMetrics | undefined {
+	const fields = result.trim().split(/\s+/);
+	if (fields.length < 3 || !/^\d+$/.test(fields[0])) return;
+
+	const metrics: BenchmarkMetrics = {};
+	for (let i = 1; i + 1 < fields.length; i += 2) {
+		const value = Number(fields[i]);
+		if (isNaN(value)) return;
+		metrics[fields[i + 1]] = value;
+	}
+	return metrics;
+}
+
+// The units that go test reports for every benchmark, which are listed before
+// the units of custom metrics.
+const standardUnits = ['ns/op', 'B/op', 'allocs/op'];
+
+// Sorts the units with the standard units first, in the order go test reports
+// them.
+export function sortUnits(units: string[]): string[] {
+	const order = (unit: string) => standardUnits.indexOf(unit) + 1 || Infinity;
+	return [...units].sort((a, b) => order(a) - order(b) || a.localeCompare(b));
+}
+
+/**
+ * Formats the mean of the samples of each unit, like go test formats the
+ * result of a benchmark, such as "123.4 ns/op  64 B/op  2 allocs/op".
+ */
+export function formatMetrics(samples: BenchmarkSamples): string {
+	return sortUnits(Object.keys(samples).filter((unit) => samples[unit].length > 0))
+		.map((unit) => `${Number(summarize(samples[unit]).mean.toPrecision(4))} ${unit}`)
+		.join('  ');
+}
+
+// Returns the number of samples, the mean and the sample variance.
+export function summarize(samples: number[]): SampleSummary {
+	const n = samples.length;
+	const mean = samples.reduce((s, x) => s + x, 0) / n;
+	const variance = n < 2 ? 0 : samples.reduce((s, x) => s + (x - mean) ** 2, 0) / (n - 1);
+	return { n, mean, variance };
+}
+
+/**
+ * Returns the two-sided p-value of Welch's t-test of the hypothesis that the
+ * samples have the same mean, or undefined if either has less than two
+ * samples.
+ */
+export function welchTTest(a: SampleSummary, b: SampleSummary): number | undefined {
+	if (a.n < 2 || b.n < 2) return;
+
+	const va = a.variance / a.n;
+	const vb = b.variance / b.n;
+	if (va + vb === 0) return a.mean === b.mean ? 1 : 0;
+
+	const t = (a.mean - b.mean) / Math.sqrt(va + vb);
+	const df = (va + vb) ** 2 / (va ** 2 / (a.n - 1) + vb ** 2 / (b.n - 1));
+	return incompleteBeta(df / (df + t * t), df / 2, 0.5);
+}
+
+/**
+ * Compares the benchmarks that are in both sets of results, unit by unit.
+ *
+ * @param base The samples of the benchmarks before a change, by name.
+ * @param head The samples of the benchmarks after the change, by name.
+ * @param alpha The significance level.
+ */
+export function compareBenchmarks(
+	base: Record<string, BenchmarkSamples>,
+	head: Record<string, BenchmarkSamples>,
+	alpha = 0.05
+): BenchmarkComparison[] {
+	const comparisons: BenchmarkComparison[] = [];
+	for (const name of Object.keys(base).sort()) {
+		if (!head[name]) continue;
+		for (const unit in base[name]) {
+			if (!head[name][unit]?.length || !base[name][unit].length) continue;
+			const b = summarize(base[name][unit]);
+			const h = summarize(head[name][unit]);
+			const p = welchTTest(b, h);
+			comparisons.push({
+				name,
+				unit,
+				base: b,
+				head: h,
+				delta: b.mean === 0 ? 0 : (100 * (h.mean - b.mean)) / b.mean,
+				p,
+				significant: p !== undefined && p < alpha
+			});
+		}
+	}
+	return comparisons;
+}
+
+/**
+ * Formats the comparisons as a Markdown table for each unit, like benchstat
+ * does: a delta is shown only if it is significant, and "~" otherwise.
+ */
+export function formatComparisons(comparisons: BenchmarkComparison[], baseLabel: string, headLabel: string): string {
+	const units = [...new Set(comparisons.map((x) => x.unit))];
+	const tables = units.map((unit) => {
+		const rows = comparisons
+			.filter((x) => x.unit === unit)
+			.map((x) => {
+				const delta = x.significant ? `${x.delta > 0 ? '+' : ''}${x.delta.toFixed(2)}%` : '~';
+				const p = x.p === undefined ? 'too few samples' : `p=${x.p.toFixed(3)}`;
+				const stats = `${delta} (${p} n=${x.base.n}+${x.head.n})`;
+				return `| ${escapeCell(x.name)} | ${formatSummary(x.base)} | ${formatSummary(x.head)} | ${stats} |`;
+			});
+		const header = `| ${escapeCell(unit)} | ${escapeCell(baseLabel)} | ${escapeCell(headLabel)} | delta |`;
+		return [header, '| --- | ---: | ---: | --- |', ...rows].join('\n');
+	});
+	return tables.join('\n\n');
+}
+
+/**
+ * Escapes the pipes in the text of a Markdown table cell, which would
+ * otherwise end the cell, even in a code span.
+ */
+export function escapeCell(text: string): string {
+	return text.replace(/\|/g, '\\|');
+}
+
+// Formats the mean with the standard deviation relative to it.
+function formatSummary(s: SampleSummary): string {
+	const mean = Number(s.mean.toPrecision(4)).toString();
+	if (s.n < 2 || s.mean === 0) return mean;
+	return `${mean} ± ${Math.round((100 * Math.sqrt(s.variance)) / s.mean)}%`;
+}
+
+// Returns the regularized incomplete beta function I_x(a, b), as in
+// Numerical Recipes, section 6.4.
+function incompleteBeta(x: number, a: number, b: number): number {
+	if (x <= 0) return 0;
+	if (x >= 1) return 1;
+	const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+	if (x < (a + 1) / (a + b + 2)) {
+		return (front * betaContinuedFraction(x, a, b)) / a;
+	}
+	return 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+// Evaluates the continued fraction of the incomplete beta function with the
+// modified Lentz's method.
+function betaContinuedFraction(x: number, a: number, b: number): number {
+	const tiny = 1e-30;
+	let c = 1;
+	let d = 1 - ((a + b) * x) / (a + 1);
+	if (Math.abs(d) < tiny) d = tiny;
+	d = 1 / d;
+	let h = d;
+	for (let m = 1; m <= 200; m++) {
+		const m2 = 2 * m;
+		for (const aa of [
+			(m * (b - m) * x) / ((a + m2 - 1) * (a + m2)),
+			(-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1))
+		]) {
+			d = 1 + aa * d;
+			if (Math.abs(d) < tiny) d = tiny;
+			c = 1 + aa / c;
+			if (Math.abs(c) < tiny) c = tiny;
+			d = 1 / d;
+			h *= d * c;
+		}
+		if (Math.abs(d * c - 1) < 1e-12) break;
+	}
+	return h;
+}
+
+// Returns the logarithm of the gamma function, with the Lanczos approximation.
+function logGamma(x: number): number {
+	const g = 7;
+	const coefficients = [
+		0.99999999999980993,
+		676.5203681218851,
+		-1259.1392167224028,
+		771.32342877765313,
+		-176.61502916214059,
+		12.507343278686905,
+		-0.13857109526572012,
+		9.9843695780195716e-6,
+		1.5056327351493116e-7
+	];
+	if (x < 0.5) {
+		return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+	}
+	x -= 1;
+	let sum = coefficients[0];
+	for (let i = 1; i < g + 2; i++) sum += coefficients[i] / (x + i);
+	const t = x + g + 0.5;
+	return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(sum);
+}
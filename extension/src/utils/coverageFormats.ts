@@ -0,0 +1,119 @@
+/*---------------------------------------------------------
+ * Copyright 2024 The Go Authors. All rights reserved.
+ * Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------*/
+
+import path = require('path');
+import { CoverageBlock, CoverProfile } from './coverProfile';
+import { xmlEscape } from './xmlUtils';
+
+// Converts a cover profile to the LCOV tracefile format. Cover profiles only
+// record blocks of statements, so only line coverage (DA records) is written.
+// If root is set, the paths of the files under root are relative to root.
+export function toLcov(profile: CoverProfile, root?: string): string {
+	const out: string[] = [];
+	for (const [file, lines] of lineHits(profile)) {
+		out.push('TN:', `SF:${displayPath(file, root)}`);
+		let hit = 0;
+		for (const [line, count] of lines) {
+			out.push(`DA:${line},${count}`);
+			if (count > 0) hit++;
+		}
+		out.push(`LF:${lines.size}`, `LH:${hit}`, 'end_of_record');
+	}
+	return out.join('\n') + '\n';
+}
+
+// Converts a cover profile to the Cobertura XML format. Files are grouped into
+// packages by directory. Cover profiles do not record branches, so the branch
+// rates are always 0. If root is set, the paths of the files under root are
+// relative to root, and root is listed as the source directory.
+export function toCobertura(profile: CoverProfile, root?: string, timestamp = Date.now()): string {
+	const packages = new Map<string, [string, Map<number, number>][]>();
+	for (const [file, lines] of lineHits(profile)) {
+		const filename = displayPath(file, root);
+		const dir = path.posix.dirname(filename);
+		const files = packages.get(dir) ?? [];
+		files.push([filename, lines]);
+		packages.set(dir, files);
+	}
+
+	const rate = (hit: number, total: number) => (total === 0 ? '0' : (hit / total).toFixed(4));
+	const body: string[] = [];
+	let totalHit = 0,
+		totalValid = 0;
+	for (const [dir, files] of [...packages].sort(([a], [b]) => a.localeCompare(b))) {
+		const classes: string[] = [];
+		let pkgHit = 0,
+			pkgValid = 0;
+		for (const [filename, lines] of files) {
+			let hit = 0;
+			const lineElems: string[] = [];
+			for (const [line, count] of lines) {
+				lineElems.push(`\t\t\t\t\t\t<line number="${line}" hits="${count}"/>`);
+				if (count > 0) hit++;
+			}
+			pkgHit += hit;
+			pkgValid += lines.size;
+			classes.push(
+				`\t\t\t\t<class name="${xmlEscape(path.posix.basename(filename))}" filename="${xmlEscape(filename)}" ` +
+					`line-rate="${rate(hit, lines.size)}" branch-rate="0" complexity="0">`,
+				'\t\t\t\t\t<methods/>',
+				'\t\t\t\t\t<lines>',
+				...lineElems,
+				'\t\t\t\t\t</lines>',
+				'\t\t\t\t</class>'
+			);
+		}
+		totalHit += pkgHit;
+		totalValid += pkgValid;
+		const pkgRate = rate(pkgHit, pkgValid);
+		body.push(
+			`\t\t<package name="${xmlEscape(dir)}" line-rate="${pkgRate}" branch-rate="0" complexity="0">`,
+			'\t\t\t<classes>',
+			...classes,
+			'\t\t\t</classes>',
+			'\t\t</package>'
+		);
+	}
+
+	return [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<!DOCTYPE coverage SYSTEM "http://cobertura.sourceforge.net/xml/coverage-04.dtd">',
+		`<coverage line-rate="${rate(totalHit, totalValid)}" branch-rate="0" lines-covered="${totalHit}" ` +
+			`lines-valid="${totalValid}" branches-covered="0" branches-valid="0" complexity="0" version="" ` +
+			`timestamp="${timestamp}">`,
+		root ? `\t<sources>\n\t\t<source>${xmlEscape(root)}</source>\n\t</sources>` : '\t<sources/>',
+		'\t<packages>',
+		...body,
+		'\t</packages>',
+		'</coverage>',
+		''
+	].join('\n');
+}
+
+// Returns the execution count of each line of each file, sorted by file and
+// line. A line that is part of multiple blocks gets the largest count.
+function lineHits(profile: CoverProfile): [string, Map<number, number>][] {
+	const files: [string, Map<number, number>][] = [];
+	profile.blocks.forEach((blocks: CoverageBlock[], file: string) => {
+		const lines = new Map<number, number>();
+		for (const b of blocks) {
+			for (let line = b.startLine; line <= b.endLine; line++) {
+				lines.set(line, Math.max(lines.get(line) ?? 0, b.count));
+			}
+		}
+		files.push([file, new Map([...lines].sort(([a], [b]) => a - b))]);
+	});
+	return files.sort(([a], [b]) => a.localeCompare(b));
+}
+
+function displayPath(file: string, root?: string): string {
+	if (root) {
+		const rel = path.relative(root, file);
+		if (rel && !rel.startsWith('..') && !path.isAbsolute(rel)) {
+			return rel.split(path.sep).join('/');
+		}
+	}
+	return file.split(path.sep).join('/');
+}
@@ -0,0 +1,94 @@
+/*---------------------------------------------------------
+ * Copyright 2024 The Go Authors. All rights reserved.
+ * Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------*/
+
+// GoListPackage is a package as printed by go list -json, with the fields that
+// are used by the extension.
+export interface GoListPackage {
+	// the import path, which is followed by the test binary it is compiled
+	// for, such as "example.com/a [example.com/a.test]", if it is a variant of
+	// the package with its tests. The package of a test binary is named after
+	// the tested package, such as "example.com/a.test".
+	ImportPath: string;
+	Dir?: string;
+	// whether the package is in the standard library.
+	Standard?: boolean;
+	// the import paths of the transitive dependencies, including the variants.
+	Deps?: string[];
+}
+
+/**
+ * Parses the output of go list -json, which is a sequence of JSON objects.
+ */
+export function parseGoListJSON(output: string): GoListPackage[] {
+	// Each object starts and ends at the beginning of a line, and the objects
+	// it contains are indented.
+	return output
+		.split(/^}\r?$/m)
+		.filter((x) => x.trim() !== '')
+		.map((x) => JSON.parse(x + '}'));
+}
+
+/**
+ * Returns the directories of the packages whose tests depend on a package in
+ * one of the changed directories, given the output of go list -deps -test for
+ * the packages.
+ *
+ * @param packages The packages listed by go list -deps -test -json.
+ * @param changedDirs The directories with changed files.
+ */
+export function affectedTestPackages(packages: GoListPackage[], changedDirs: string[]): string[] {
+	const dirs = new Map<string, string>();
+	for (const pkg of packages) {
+		if (pkg.Dir) dirs.set(basePath(pkg.ImportPath), pkg.Dir);
+	}
+
+	const changed = new Set(changedDirs);
+	const affected = new Set<string>();
+	for (const pkg of packages) {
+		// The package of the test binary of package x is x.test, which depends
+		// on the variants of x and x_test that are compiled with the tests.
+		const m = pkg.ImportPath.match(/^(\S+)\.test$/);
+		const dir = m && dirs.get(m[1]);
+		if (!dir) continue;
+		if ([m[1], ...(pkg.Deps ?? [])].some((dep) => changed.has(dirs.get(basePath(dep)) ?? ''))) {
+			affected.add(dir);
+		}
+	}
+	return [...affected];
+}
+
+/**
+ * Returns the directories of the code that the tests of each package depend on,
+ * keyed by the directory of the package: the directory of the package and those
+ * of its dependencies outside of the standard library, given the output of go
+ * list -deps -test for the packages.
+ *
+ * @param packages The packages listed by go list -deps -test -json.
+ */
+export function testDependencyDirs(packages: GoListPackage[]): Map<string, string[]> {
+	const dirs = new Map<string, string>();
+	for (const pkg of packages) {
+		if (pkg.Dir && !pkg.Standard) dirs.set(basePath(pkg.ImportPath), pkg.Dir);
+	}
+
+	const deps = new Map<string, string[]>();
+	for (const pkg of packages) {
+		const m = pkg.ImportPath.match(/^(\S+)\.test$/);
+		const dir = m && dirs.get(m[1]);
+		if (!dir) continue;
+		const depDirs = new Set([dir]);
+		for (const dep of pkg.Deps ?? []) {
+			const depDir = dirs.get(basePath(dep));
+			if (depDir) depDirs.add(depDir);
+		}
+		deps.set(dir, [...depDirs].sort());
+	}
+	return deps;
+}
+
+// Returns the import path without the test binary of a variant.
+function basePath(importPath: string): string {
+	return importPath.replace(/ \[.*\]$/, '');
+}
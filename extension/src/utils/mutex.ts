@@ -40,3 +40,41 @@ export class Mutex {
 		// promises chained in this.mutex resolve.
 	}
 }
+
+/* Semaphore is like Mutex, but lets up to a given number of holders hold
+  the lock at the same time.
+
+  const s = new Semaphore(4);
+
+  const unlock = await s.lock();
+  try {
+	  // at most 4 holders at a time
+  } finally {
+	  unlock();
+  }
+*/
+export class Semaphore {
+	private held = 0;
+	private readonly waiters: (() => void)[] = [];
+
+	constructor(private readonly limit: number) {}
+
+	public lock(): PromiseLike<() => void> {
+		return new Promise((resolve) => {
+			const acquire = () => {
+				this.held++;
+				let released = false;
+				resolve(() => {
+					if (released) return;
+					released = true;
+					this.held--;
+					this.waiters.shift()?.();
+				});
+			};
+
+			// Waiters are woken in order, one for each released lock.
+			if (this.held < Math.max(this.limit, 1)) acquire();
+			else this.waiters.push(acquire);
+		});
+	}
+}
@@ -0,0 +1,72 @@
+/*---------------------------------------------------------
+ * Copyright 2024 The Go Authors. All rights reserved.
+ * Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------*/
+
+import { GoTestOutput } from '../testUtils';
+
+// TestOutputParser converts the output of a test binary run with -test.v,
+// such as the output of a debug session, to the events of `go test -json`.
+// Lines that are test2json events already are passed through as they are.
+export class TestOutputParser {
+	private buffer = '';
+	private current?: string;
+	private received = false;
+
+	constructor(private readonly consume: (e: GoTestOutput) => void) {}
+
+	write(output: string) {
+		this.received = true;
+		const lines = (this.buffer + output).split('\n');
+		this.buffer = lines.pop() ?? '';
+		lines.forEach((line) => this.parseLine(line.replace(/\r$/, '') + '\n'));
+	}
+
+	// Parses the rest of the output, and returns whether there was any output.
+	flush(): boolean {
+		if (this.buffer) {
+			this.parseLine(this.buffer);
+			this.buffer = '';
+		}
+		return this.received;
+	}
+
+	private parseLine(line: string) {
+		if (line.startsWith('{')) {
+			try {
+				const e = JSON.parse(line);
+				if (typeof e?.Action === 'string') {
+					this.consume(e);
+					return;
+				}
+			} catch {
+				// Not an event.
+			}
+		}
+
+		let m = line.match(/^=== (RUN|PAUSE|CONT|NAME)\s+(\S+)/);
+		if (m) {
+			this.current = m[2];
+			if (m[1] !== 'NAME') {
+				this.consume({ Action: m[1].toLowerCase(), Test: m[2] });
+			}
+			return;
+		}
+
+		m = line.match(/^\s*--- (PASS|FAIL|SKIP): (\S+) \((\d+(?:\.\d+)?)s\)/);
+		if (m) {
+			this.consume({ Action: m[1].toLowerCase(), Test: m[2], Elapsed: parseFloat(m[3]) });
+			return;
+		}
+
+		// Benchmarks do not report that they passed, only their results.
+		m = line.match(/^(Benchmark\S*?)(?:-\d+)?\s+\d+\s+\d+(?:\.\d+)? ns\/op/);
+		if (m) {
+			this.consume({ Action: 'output', Test: m[1], Output: line });
+			this.consume({ Action: 'pass', Test: m[1] });
+			return;
+		}
+
+		this.consume({ Action: 'output', Test: this.current, Output: line });
+	}
+}
@@ -0,0 +1,59 @@
+/*---------------------------------------------------------
+ * Copyright 2024 The Go Authors. All rights reserved.
+ * Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------*/
+import assert = require('assert');
+import { Uri } from 'vscode';
+import { BenchmarkResults, GoBenchmarkHistory } from '../../src/goTest/benchmarks';
+import { GoTest } from '../../src/goTest/utils';
+import { MockMemento } from '../mocks/MockMemento';
+import { MockTestController } from '../mocks/MockTest';
+
+suite('Go Benchmark History', () => {
+	const ctrl = new MockTestController();
+	const uri = Uri.file('/src/proj/main_test.go');
+	const item = (name: string) => ctrl.createTestItem(GoTest.id(uri, 'benchmark', name), name, uri);
+
+	async function save(history: GoBenchmarkHistory, results: Record<string, number[]>) {
+		const r = new BenchmarkResults();
+		for (const name in results) {
+			for (const ns of results[name]) r.add(item(name), { 'ns/op': ns });
+		}
+		await history.save(r);
+	}
+
+	test('compares runs', async () => {
+		const history = new GoBenchmarkHistory(new MockMemento());
+		await save(history, { BenchmarkFoo: [100, 101, 99], BenchmarkBar: [5] });
+		await save(history, { BenchmarkFoo: [90, 91, 89] });
+
+		const [base, head] = history.runs;
+		assert.deepStrictEqual(base.results[item('BenchmarkFoo').id], {
+			name: 'proj.BenchmarkFoo',
+			samples: { 'ns/op': [100, 101, 99] }
+		});
+		assert.match(history.compare(base, head), /\| proj\.BenchmarkFoo \| 100 ± 1% \| 90 ± 1% \| -10\.00% /);
+	});
+
+	test('collects the trend of a benchmark and its sub-benchmarks', async () => {
+		const history = new GoBenchmarkHistory(new MockMemento());
+		await save(history, { 'BenchmarkFoo': [1], 'BenchmarkFoo/a': [2], 'BenchmarkFoobar': [3] });
+		await save(history, { 'BenchmarkFoo/a': [4] });
+
+		const trend = history.trend(item('BenchmarkFoo'));
+		assert.deepStrictEqual(
+			[...trend].map(([name, points]) => [name, points.map((x) => x.samples['ns/op'])]),
+			[
+				['BenchmarkFoo', [[1]]],
+				['BenchmarkFoo/a', [[2], [4]]]
+			]
+		);
+		assert.deepStrictEqual(
+			[...history.latest(item('BenchmarkFoo'))].map(([name, x]) => [name, x.samples['ns/op']]),
+			[
+				['BenchmarkFoo', [1]],
+				['BenchmarkFoo/a', [4]]
+			]
+		);
+	});
+});
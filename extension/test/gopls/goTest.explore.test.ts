@@ -8,7 +8,7 @@ import sinon = require('sinon');
 import { TextDocument, TestItem, TestItemCollection, TextDocumentChangeEvent, workspace, Uri } from 'vscode';
 import { GoTestExplorer } from '../../src/goTest/explore';
 import { MockTestController, MockTestWorkspace } from '../mocks/MockTest';
-import { forceDidOpenTextDocument, getSymbols_Regex, populateModulePathCache } from './goTest.utils';
+import { debugWithOutput, forceDidOpenTextDocument, getSymbols_Regex, populateModulePathCache } from './goTest.utils';
 import { MockExtensionContext } from '../mocks/MockContext';
 import { MockMemento } from '../mocks/MockMemento';
 import * as config from '../../src/config';
@@ -244,6 +244,33 @@ suite('Go Test Explorer', () => {
 				document.uri.with({ query: 'test', fragment: 'TestExampleTestSuite' }).toString()
 			]);
 		});
+
+		test('debugging a suite method reports its result', async () => {
+			const sandbox = sinon.createSandbox();
+			const uri = Uri.file(path.join(fixtureDir, 'suite_test.go'));
+			await env.startGopls(uri.fsPath, undefined, fixtureDir);
+			testExplorer = GoTestExplorer.setup(ctx, env.goCtx);
+			document = await forceDidOpenTextDocument(workspace, testExplorer, uri);
+
+			const method = testExplorer.resolver
+				.find(document.uri)
+				.find((x) => GoTest.parseId(x.id).name === '(*ExampleTestSuite).TestExample');
+			assert(method, 'The suite method was not found');
+			try {
+				const results = await debugWithOutput(
+					sandbox,
+					testExplorer,
+					[method],
+					[
+						'=== RUN   TestExampleTestSuite\n=== RUN   TestExampleTestSuite/TestExample\n',
+						'--- PASS: TestExampleTestSuite (0.00s)\n    --- PASS: TestExampleTestSuite/TestExample (0.00s)\n'
+					]
+				);
+				assert.strictEqual(results['(*ExampleTestSuite).TestExample'], 'passed');
+			} finally {
+				sandbox.restore();
+			}
+		});
 	});
 
 	suite('settings', () => {
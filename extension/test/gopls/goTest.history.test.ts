@@ -0,0 +1,91 @@
+/*---------------------------------------------------------
+ * Copyright 2024 The Go Authors. All rights reserved.
+ * Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------*/
+import assert = require('assert');
+import path = require('path');
+import { TestRunRequest, Uri } from 'vscode';
+import { flakyTag, GoTestHistory } from '../../src/goTest/history';
+import { GoTest } from '../../src/goTest/utils';
+import { MockMemento } from '../mocks/MockMemento';
+import { MockTestController } from '../mocks/MockTest';
+
+suite('Go Test History', () => {
+	const ctrl = new MockTestController();
+	const uri = Uri.file('/src/proj/main_test.go');
+
+	async function runAll(history: GoTestHistory, outcomes: ('passed' | 'failed')[], description?: string) {
+		const item = ctrl.createTestItem(GoTest.id(uri, 'test', 'TestFoo'), 'TestFoo', uri);
+		item.description = description;
+		for (const outcome of outcomes) {
+			const run = history.track(ctrl.createTestRun(new TestRunRequest([item])), Promise.resolve(new Map()));
+			if (outcome === 'passed') run.passed(item, 10);
+			else run.failed(item, [], 10);
+			run.end();
+			await run.saved;
+		}
+		return item;
+	}
+
+	test('records results across runs', async () => {
+		const state = new MockMemento();
+		await runAll(new GoTestHistory(state), ['passed', 'failed']);
+
+		const results = new GoTestHistory(state).results(GoTest.id(uri, 'test', 'TestFoo'));
+		assert.deepStrictEqual(
+			results.map((x) => [x.outcome, x.duration]),
+			[
+				['passed', 10],
+				['failed', 10]
+			]
+		);
+	});
+
+	test('stable test is not flaky', async () => {
+		const history = new GoTestHistory(new MockMemento());
+		const item = await runAll(history, ['passed', 'passed', 'passed']);
+		assert.strictEqual(history.flakiness(item.id), 0);
+		assert.strictEqual(item.description, undefined);
+		assert(!item.tags.includes(flakyTag));
+	});
+
+	test('scores flakiness', async () => {
+		const history = new GoTestHistory(new MockMemento());
+		const item = await runAll(history, ['failed', 'failed', 'passed', 'passed']);
+		assert.strictEqual(history.flakiness(item.id), 1 / 3);
+		assert.strictEqual(item.description, 'flaky (33%)');
+	});
+
+	test('alternating test is flaky', async () => {
+		const history = new GoTestHistory(new MockMemento());
+		const item = await runAll(history, ['passed', 'failed', 'passed', 'failed', 'passed']);
+		assert.strictEqual(history.flakiness(item.id), 1);
+		assert.strictEqual(item.description, 'flaky (100%)');
+		assert(item.tags.includes(flakyTag));
+	});
+
+	test('keeps the description of a test', async () => {
+		const history = new GoTestHistory(new MockMemento());
+		const item = await runAll(history, ['passed', 'failed', 'passed'], 'benchmark');
+		assert.strictEqual(item.description, 'benchmark flaky (100%)');
+		const again = await runAll(history, ['passed', 'passed', 'passed', 'passed', 'passed'], item.description);
+		assert.strictEqual(again.description, 'benchmark flaky (29%)');
+	});
+
+	test('results compare the code of the dependencies', async () => {
+		const history = new GoTestHistory(new MockMemento());
+		const item = ctrl.createTestItem(GoTest.id(uri, 'test', 'TestFoo'), 'TestFoo', uri);
+		for (const [outcome, dep] of [
+			['passed', '/src/a'],
+			['failed', '/src/b']
+		]) {
+			const deps = new Map([[path.dirname(uri.fsPath), [dep]]]);
+			const run = history.track(ctrl.createTestRun(new TestRunRequest([item])), Promise.resolve(deps));
+			if (outcome === 'passed') run.passed(item, 10);
+			else run.failed(item, [], 10);
+			run.end();
+			await run.saved;
+		}
+		assert.strictEqual(history.flakiness(item.id), 0);
+	});
+});
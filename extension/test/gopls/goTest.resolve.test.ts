@@ -3,7 +3,7 @@
  * Licensed under the MIT License. See LICENSE in the project root for license information.
  *--------------------------------------------------------*/
 import assert = require('assert');
-import { TestItem, Uri } from 'vscode';
+import { DocumentSymbol, Range, SymbolKind, TestItem, Uri } from 'vscode';
 import { GoTestResolver } from '../../src/goTest/resolve';
 import { GoTest, GoTestKind } from '../../src/goTest/utils';
 import { MockTestController, MockTestWorkspace } from '../mocks/MockTest';
@@ -194,6 +194,40 @@ suite('Go Test Resolver', () => {
 					'file:///src/proj/main_test.go?fuzz#FuzzFuss'
 				]
 			}
+		},
+		Fuzz: {
+			'No corpus': {
+				workspace: ['/src/proj'],
+				files: {
+					'/src/proj/go.mod': 'module test',
+					'/src/proj/main_test.go': 'package main\n\nfunc FuzzFuss(*testing.F) {}'
+				},
+				item: [
+					['test', '/src/proj', 'module'],
+					['main_test.go', '/src/proj/main_test.go', 'file'],
+					['FuzzFuss', '/src/proj/main_test.go', 'fuzz', 'FuzzFuss']
+				],
+				expect: []
+			},
+			'Seed corpus': {
+				workspace: ['/src/proj'],
+				files: {
+					'/src/proj/go.mod': 'module test',
+					'/src/proj/main_test.go': 'package main\n\nfunc FuzzFuss(*testing.F) {}',
+					'/src/proj/testdata/fuzz/FuzzFuss/582528ddfad69eb5': 'go test fuzz v1\nstring("a")',
+					'/src/proj/testdata/fuzz/FuzzFuss/c6d8f1a2b3e4f5a6': 'go test fuzz v1\nstring("b")',
+					'/src/proj/testdata/fuzz/FuzzOther/582528ddfad69eb5': 'go test fuzz v1\nstring("c")'
+				},
+				item: [
+					['test', '/src/proj', 'module'],
+					['main_test.go', '/src/proj/main_test.go', 'file'],
+					['FuzzFuss', '/src/proj/main_test.go', 'fuzz', 'FuzzFuss']
+				],
+				expect: [
+					'file:///src/proj/main_test.go?fuzz#FuzzFuss%2F582528ddfad69eb5',
+					'file:///src/proj/main_test.go?fuzz#FuzzFuss%2Fc6d8f1a2b3e4f5a6'
+				]
+			}
 		}
 	};
 
@@ -220,4 +254,40 @@ suite('Go Test Resolver', () => {
 			}
 		});
 	}
+
+	test('creates items for the cases of table-driven tests', async () => {
+		const uri = Uri.parse('file:///src/proj/main_test.go');
+		const source = [
+			'package main',
+			'',
+			'func TestFoo(t *testing.T) {',
+			'	tests := []struct{ name string }{',
+			'		{name: "one case"},',
+			'		{name: "two"},',
+			'	}',
+			'	for _, tt := range tests {',
+			'		t.Run(tt.name, func(t *testing.T) {})',
+			'	}',
+			'}'
+		].join('\n');
+		const workspace = MockTestWorkspace.from(['/src/proj'], {
+			'/src/proj/go.mod': 'module test',
+			'/src/proj/main_test.go': source
+		});
+		const range = new Range(2, 0, 10, 1);
+		const symbol = new DocumentSymbol('TestFoo', '(t *testing.T)', SymbolKind.Function, range, range);
+		const resolver = new GoTestResolver(workspace, new MockTestController(), () => Promise.resolve([symbol]));
+		populateModulePathCache(workspace);
+
+		await resolver.processDocument(await workspace.openTextDocument(uri));
+		const test = resolver.all.get(GoTest.id(uri, 'test', 'TestFoo'));
+		assert(test, 'TestFoo was not found');
+
+		const cases: [string, number | undefined][] = [];
+		test.children.forEach((x) => cases.push([x.id, x.range?.start.line]));
+		assert.deepStrictEqual(cases, [
+			[GoTest.id(uri, 'test', 'TestFoo/one_case'), 4],
+			[GoTest.id(uri, 'test', 'TestFoo/two'), 5]
+		]);
+	});
 });
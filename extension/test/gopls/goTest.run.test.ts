@@ -1,9 +1,9 @@
 import assert = require('assert');
 import path = require('path');
 import sinon = require('sinon');
-import { Range, TestItem, Uri, workspace } from 'vscode';
+import { debug, DebugConfiguration, Range, TestItem, Uri, workspace } from 'vscode';
 import * as testUtils from '../../src/testUtils';
-import { forceDidOpenTextDocument } from './goTest.utils';
+import { debugWithOutput, forceDidOpenTextDocument } from './goTest.utils';
 import { GoTestExplorer } from '../../src/goTest/explore';
 import { MockExtensionContext } from '../mocks/MockContext';
 import { GoTest } from '../../src/goTest/utils';
@@ -120,6 +120,28 @@ suite('Go Test Runner', () => {
 			assert(testExplorer.profiler.hasProfileFor(test.id), 'Did not create profile for test');
 		});
 
+		test('captures an execution trace', async () => {
+			const test = Array.from(testExplorer.resolver.allItems).filter((x) => GoTest.parseId(x.id).name)[0];
+			assert(test, 'No tests found');
+
+			assert(
+				await testExplorer.runner.run(
+					{
+						include: [test],
+						exclude: undefined,
+						profile: undefined
+					},
+					undefined,
+					{ kind: 'trace' }
+				),
+				'Failed to execute `go test`'
+			);
+			assert.strictEqual(stub.callCount, 1, 'expected one call to goTest');
+			const { flags } = stub.lastCall.args[0];
+			assert(flags[flags.indexOf('--trace') + 1]?.endsWith('.trace.prof'), `unexpected flags ${flags}`);
+			assert(testExplorer.profiler.hasProfileFor(test.id), 'Did not create trace for test');
+		});
+
 		test('tests are run together when not profiling', async () => {
 			const tests = Array.from(testExplorer.resolver.allItems).filter((x) => GoTest.parseId(x.id).name);
 			assert(tests, 'No tests found');
@@ -139,6 +161,139 @@ suite('Go Test Runner', () => {
 			);
 		});
 
+		test('collects coverage', async () => {
+			const tests = Array.from(testExplorer.resolver.allItems).filter((x) => GoTest.parseId(x.id).name);
+			assert(tests, 'No tests found');
+
+			assert(
+				await testExplorer.runner.run(
+					{
+						include: tests,
+						exclude: undefined,
+						profile: undefined
+					},
+					undefined,
+					{},
+					true
+				),
+				'Failed to execute `go test`'
+			);
+			assert.strictEqual(stub.callCount, 1, 'expected one call to goTest');
+			assert(stub.lastCall.args[0].flags.some((x) => x.startsWith('-coverprofile=')));
+		});
+
+		test('tests are run individually when collecting coverage by test', async () => {
+			const tests = Array.from(testExplorer.resolver.allItems).filter((x) => GoTest.parseId(x.id).name);
+			assert(tests, 'No tests found');
+
+			assert(
+				await testExplorer.runner.run(
+					{
+						include: tests,
+						exclude: undefined,
+						profile: undefined
+					},
+					undefined,
+					{},
+					'perTest'
+				),
+				'Failed to execute `go test`'
+			);
+			assert.strictEqual(stub.callCount, tests.length, 'expected one call to goTest per test');
+			assert.deepStrictEqual(
+				stub.getCalls().map((x) => x.args[0].functions),
+				tests.map((x) => [GoTest.parseId(x.id).name])
+			);
+		});
+
+		test('tests of a package are debugged in one session', async () => {
+			const tests = Array.from(testExplorer.resolver.allItems).filter((x) => GoTest.parseId(x.id).name);
+			assert(tests.length > 1, 'Not enough tests found');
+			const startDebugging = sandbox.stub(debug, 'startDebugging').resolves(false);
+
+			await testExplorer.runner.debug({
+				include: tests,
+				exclude: undefined,
+				profile: undefined
+			});
+			assert.strictEqual(startDebugging.callCount, 1, 'expected one debug session');
+			assert.deepStrictEqual((startDebugging.lastCall.args[1] as DebugConfiguration).args, [
+				'-test.run',
+				`^(${tests.map((x) => GoTest.parseId(x.id).name).join('|')})$`,
+				'-test.v'
+			]);
+		});
+
+		test('reports the results of a debug session', async () => {
+			const tests = Array.from(testExplorer.resolver.allItems).filter((x) =>
+				['TestFunction', 'Test1Function', 'Test_foobar'].includes(GoTest.parseId(x.id).name ?? '')
+			);
+			assert.strictEqual(tests.length, 3, 'Not enough tests found');
+
+			// The session is stopped while Test_foobar runs.
+			const results = await debugWithOutput(sandbox, testExplorer, tests, [
+				'=== RUN   TestFunction\n=== RUN   TestFunction/sub\n    --- PASS: TestFunc',
+				'tion/sub (0.00s)\n--- PASS: TestFunction (0.00s)\n=== RUN   Test1Function\n',
+				'    codelens2_test.go:30: boom\n--- FAIL: Test1Function (0.00s)\n=== RUN   Test_foobar\n'
+			]);
+			assert.deepStrictEqual(results, {
+				'TestFunction/sub': 'passed',
+				'TestFunction': 'passed',
+				'Test1Function': 'failed',
+				'Test_foobar': 'skipped'
+			});
+		});
+
+		test('runs tests with the flags of a run profile', async () => {
+			const test = Array.from(testExplorer.resolver.allItems).filter((x) => GoTest.parseId(x.id).name)[0];
+			assert(test, 'No tests found');
+
+			const request = { include: [test], exclude: undefined, profile: undefined };
+			const profile = { flags: ['-race'], tags: 'integration', env: { FOO: 'bar' } };
+			assert(
+				await testExplorer.runner.run(request, undefined, {}, false, profile),
+				'Failed to execute `go test`'
+			);
+			assert.strictEqual(stub.callCount, 1, 'expected one call to goTest');
+			const { flags, env } = stub.lastCall.args[0];
+			assert.deepStrictEqual(flags.slice(-3), ['-race', '-tags', 'integration']);
+			assert.deepStrictEqual(env, { FOO: 'bar' });
+		});
+
+		test('runs tests until they fail', async () => {
+			const test = Array.from(testExplorer.resolver.allItems).filter((x) => GoTest.parseId(x.id).name)[0];
+			assert(test, 'No tests found');
+			const name = GoTest.parseId(test.id).name;
+			stub.onCall(2).callsFake((cfg) => {
+				cfg.goTestOutputConsumer?.({ Test: name, Action: 'run' });
+				cfg.goTestOutputConsumer?.({ Test: name, Action: 'fail' });
+				return Promise.resolve(false);
+			});
+
+			const request = { include: [test], exclude: undefined, profile: undefined };
+			assert(!(await testExplorer.runner.stress(request, 10)), 'Expected the tests to fail');
+			assert.strictEqual(stub.callCount, 3, 'expected the run to stop at the first failure');
+			assert(stub.getCalls().every((x) => x.args[0].flags.includes('-count=1')));
+			assert.deepStrictEqual(testExplorer.runner.failedTests, [test]);
+
+			await testExplorer.runner.run({
+				include: testExplorer.runner.failedTests,
+				exclude: undefined,
+				profile: undefined
+			});
+			assert.deepStrictEqual(stub.lastCall.args[0].functions, [name]);
+			assert.deepStrictEqual(testExplorer.runner.failedTests, []);
+		});
+
+		test('runs tests the given number of times', async () => {
+			const test = Array.from(testExplorer.resolver.allItems).filter((x) => GoTest.parseId(x.id).name)[0];
+			assert(test, 'No tests found');
+
+			const request = { include: [test], exclude: undefined, profile: undefined };
+			assert(await testExplorer.runner.stress(request, 3), 'Failed to execute `go test`');
+			assert.strictEqual(stub.callCount, 3, 'expected one call to goTest per iteration');
+		});
+
 		test('tests are run individually when profiling', async () => {
 			const tests = Array.from(testExplorer.resolver.allItems).filter((x) => GoTest.parseId(x.id).name);
 			assert(tests, 'No tests found');
@@ -273,8 +428,8 @@ suite('Go Test Runner', () => {
 			console.log('Ensure the subtest has not been disposed');
 			assert(tSub.parent, 'Subtest was disposed');
 
-			// Attempt to run subtest and other test - should not work
-			console.log('Attempt to run subtest and other test');
+			// Run subtest and other test - needs one go test invocation each
+			console.log('Run subtest and other test');
 			assert(
 				await testExplorer.runner.run({
 					include: [tSub, tOther],
@@ -283,7 +438,24 @@ suite('Go Test Runner', () => {
 				}),
 				'Failed to execute `go test`'
 			);
-			assert.strictEqual(spy.callCount, 0, 'expected no calls to goTest');
-		}).timeout(10000);
+			assert.deepStrictEqual(
+				spy.getCalls().map((x) => x.args[0].functions),
+				[['TestMain/Sub\\|Test'], ['TestOther']]
+			);
+			spy.resetHistory();
+
+			// Run subtests of the same test - needs a single go test invocation
+			console.log('Run subtests of the same test');
+			assert(
+				await testExplorer.runner.run({
+					include: [tSub, tSub4],
+					exclude: undefined,
+					profile: undefined
+				}),
+				'Failed to execute `go test`'
+			);
+			assert.strictEqual(spy.callCount, 1, 'expected one call to goTest');
+			assert.deepStrictEqual(spy.lastCall.args[0].functions, ['TestMain/Sub\\|Test', 'TestMain/1_\\+_1']);
+		}).timeout(15000);
 	});
 });
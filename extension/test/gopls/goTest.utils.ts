@@ -3,10 +3,22 @@
  * Licensed under the MIT License. See LICENSE in the project root for license information.
  *--------------------------------------------------------*/
 import path = require('path');
-import { DocumentSymbol, FileType, Uri, TextDocument, SymbolKind, Range, Position } from 'vscode';
+import sinon = require('sinon');
+import {
+	DebugSession,
+	DocumentSymbol,
+	FileType,
+	Uri,
+	TestItem,
+	TextDocument,
+	SymbolKind,
+	Range,
+	Position
+} from 'vscode';
+import { fireDebuggeeOutputForTest } from '../../src/goDebugFactory';
 import { packagePathToGoModPathMap } from '../../src/goModules';
 import { GoTestExplorer } from '../../src/goTest/explore';
-import { Workspace } from '../../src/goTest/utils';
+import { GoTest, Workspace } from '../../src/goTest/utils';
 import { MockTestWorkspace } from '../mocks/MockTest';
 
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -59,3 +71,35 @@ export async function forceDidOpenTextDocument(
 
 	return doc;
 }
+
+// Debugs the tests in a session whose program writes the chunks of output, and
+// returns the result reported for each test, by name.
+export async function debugWithOutput(
+	sandbox: sinon.SinonSandbox,
+	testExplorer: GoTestExplorer,
+	tests: TestItem[],
+	chunks: string[]
+): Promise<Record<string, string>> {
+	const results: Record<string, string> = {};
+	const report = (result: string) => (item: TestItem) => (results[GoTest.parseId(item.id).name ?? ''] = result);
+	const run = {
+		enqueued: () => undefined,
+		started: () => undefined,
+		appendOutput: () => undefined,
+		end: () => undefined,
+		passed: report('passed'),
+		failed: report('failed'),
+		errored: report('errored'),
+		skipped: report('skipped')
+	};
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	const runner = testExplorer.runner as any;
+	sandbox.stub(runner, 'createTestRun').returns(run);
+	sandbox.stub(runner, 'debugSession').callsFake(async (...args: unknown[]) => {
+		const session = ({ configuration: { sessionID: args[3] } } as unknown) as DebugSession;
+		chunks.forEach((output) => fireDebuggeeOutputForTest({ session, category: 'stdout', output }));
+	});
+
+	await testExplorer.runner.debug({ include: tests, exclude: undefined, profile: undefined });
+	return results;
+}
@@ -7,9 +7,24 @@
 'use strict';
 
 import assert from 'assert';
-import { applyCodeCoverageToAllEditors, coverageFilesForTest, initForTest } from '../../src/goCover';
+import {
+	applyCodeCoverageToAllEditors,
+	applyCoverageBaseline,
+	coverageBlocksForTest,
+	coverageFilesForTest,
+	initForTest,
+	updateCodeCoverageOnFileChange
+} from '../../src/goCover';
+import * as config from '../../src/config';
+import { GoCoverageSummaryProvider } from '../../src/goCoverageSummary';
+import { findCoverageViolations } from '../../src/goCoverageThresholds';
 import { updateGoVarsFromConfig } from '../../src/goInstallTools';
+import { getTempFilePath } from '../../src/util';
+import { CoverProfile } from '../../src/utils/coverProfile';
+import { MockExtensionContext } from '../mocks/MockContext';
+import fs = require('fs');
 import path = require('path');
+import sinon = require('sinon');
 import vscode = require('vscode');
 
 // The ideal test would check that each open editor containing a file with coverage
@@ -44,4 +59,211 @@ suite('Coverage for tests', function () {
 			`!seen a.go:${aDotGo} or !seen b.go:${bDotGo} or seen blah.go:${blahDotGo}: ${files}\n`
 		);
 	});
+
+	test('compare against baseline', async () => {
+		initForTest();
+		const file = path.join(fixtureSourcePath, 'a', 'a.go');
+		const baselinePath = getTempFilePath('baseline.out');
+		const profilePath = getTempFilePath('current.out');
+		fs.writeFileSync(baselinePath, `mode: set\n${file}:3.10,5.2 1 1\n${file}:7.10,9.2 1 0\n`);
+		fs.writeFileSync(profilePath, `mode: set\n${file}:3.10,5.2 1 0\n${file}:7.10,9.2 1 1\n`);
+		try {
+			await applyCoverageBaseline(baselinePath, fixtureSourcePath);
+			await applyCodeCoverageToAllEditors(profilePath, fixtureSourcePath);
+			const cd = coverageFilesForTest()[file];
+			assert(cd, `no coverage data for ${file}`);
+			assert.deepStrictEqual(
+				cd.gainedOptions.map((o) => o.range.start.line),
+				[6, 7, 8]
+			);
+			assert.deepStrictEqual(
+				cd.lostOptions.map((o) => o.range.start.line),
+				[2, 3, 4]
+			);
+		} finally {
+			await applyCoverageBaseline(undefined);
+		}
+	});
+
+	test('merge profiles', async () => {
+		const file = path.join(fixtureSourcePath, 'a', 'a.go');
+		const countPath = getTempFilePath('count.out');
+		const countPath2 = getTempFilePath('count2.out');
+		const setPath = getTempFilePath('set.out');
+		fs.writeFileSync(countPath, `mode: count\n${file}:3.10,5.2 1 2\n${file}:7.10,9.2 1 0\n${file}:3.10,5.2 1 1\n`);
+		fs.writeFileSync(countPath2, `mode: atomic\n${file}:3.10,5.2 1 4\n${file}:11.10,13.2 1 0\n`);
+		fs.writeFileSync(setPath, `mode: set\n${file}:7.10,9.2 1 1\n`);
+		const counts = () =>
+			coverageBlocksForTest()
+				.get(file)
+				?.map((b) => [b.startLine, b.count]);
+
+		await applyCodeCoverageToAllEditors([countPath, countPath2], fixtureSourcePath);
+		assert.deepStrictEqual(counts(), [
+			[3, 7],
+			[7, 0],
+			[11, 0]
+		]);
+
+		await applyCodeCoverageToAllEditors([countPath, setPath], fixtureSourcePath);
+		assert.deepStrictEqual(counts(), [
+			[3, 1],
+			[7, 1]
+		]);
+	});
+
+	test('summarize coverage', async () => {
+		const a = path.join(fixtureSourcePath, 'a', 'a.go');
+		const b = path.join(fixtureSourcePath, 'b', 'b.go');
+		const profilePath = getTempFilePath('summary.out');
+		fs.writeFileSync(profilePath, `mode: set\n${a}:3.10,5.2 3 1\n${a}:7.10,9.2 1 0\n${b}:3.10,5.2 2 0\n`);
+		await applyCodeCoverageToAllEditors(profilePath, fixtureSourcePath);
+
+		const ctx = MockExtensionContext.new();
+		try {
+			const provider = new GoCoverageSummaryProvider(ctx);
+			const describe = async (item?: vscode.TreeItem) =>
+				(await provider.getChildren(item)).map((x) => `${x.label}: ${x.description}`);
+			const [mod] = await provider.getChildren();
+			assert.deepStrictEqual(await describe(), [
+				'github.com/microsoft/vscode-go/gofixtures/coveragetest: 50.0% (3/6)'
+			]);
+			assert.deepStrictEqual(await describe(mod), [
+				'github.com/microsoft/vscode-go/gofixtures/coveragetest/a: 75.0% (3/4)',
+				'github.com/microsoft/vscode-go/gofixtures/coveragetest/b: 0.0% (0/2)'
+			]);
+			const [pkg] = await provider.getChildren(mod);
+			assert.deepStrictEqual(await describe(pkg), ['a.go: 75.0% (3/4)']);
+		} finally {
+			ctx.teardown();
+		}
+	});
+
+	test('shift coverage on edit', async () => {
+		const file = path.join(fixtureSourcePath, 'a', 'a.go');
+		const profilePath = getTempFilePath('edit.out');
+		fs.writeFileSync(profilePath, `mode: set\n${file}:3.13,7.2 3 1\n`);
+		await applyCodeCoverageToAllEditors(profilePath, fixtureSourcePath);
+
+		const document = await vscode.workspace.openTextDocument(file);
+		const edit = (range: vscode.Range, text: string) =>
+			updateCodeCoverageOnFileChange({
+				document,
+				contentChanges: [{ range, text, rangeOffset: document.offsetAt(range.start), rangeLength: 0 }],
+				reason: undefined
+			});
+		const block = () => coverageBlocksForTest().get(file)?.[0];
+
+		// Insert two lines before the block.
+		edit(new vscode.Range(0, 0, 0, 0), '\n\n');
+		assert.deepStrictEqual(block(), { startLine: 5, startCol: 13, endLine: 9, endCol: 2, numStmt: 3, count: 1 });
+		assert.strictEqual(coverageFilesForTest()[file].coveredOptions.length, 1);
+		assert.strictEqual(coverageFilesForTest()[file].staleOptions.length, 0);
+
+		// Insert a line in the block.
+		edit(new vscode.Range(5, 1, 5, 1), '\n\tz := 1');
+		assert.deepStrictEqual(block(), { startLine: 5, startCol: 13, endLine: 10, endCol: 2, numStmt: 3, count: 1 });
+		assert.strictEqual(coverageFilesForTest()[file].coveredOptions.length, 0);
+		assert.strictEqual(coverageFilesForTest()[file].staleOptions.length, 1);
+	});
+
+	// Sets go.coverMergeProfiles until the returned stub is restored.
+	function mergeProfiles(): sinon.SinonStub {
+		const goConfig = Object.create(config.getGoConfig());
+		const get = goConfig.get;
+		sinon
+			.stub(goConfig, 'get')
+			.callsFake((section: string, defaultValue?: unknown) =>
+				section === 'coverMergeProfiles' ? true : get.call(goConfig, section, defaultValue)
+			);
+		return sinon.stub(config, 'getGoConfig').returns(goConfig);
+	}
+
+	test('replace stale coverage when merging profiles', async () => {
+		const file = path.join(fixtureSourcePath, 'a', 'a.go');
+		const profilePath = getTempFilePath('stale.out');
+		fs.writeFileSync(profilePath, `mode: count\n${file}:3.13,7.2 3 2\n`);
+		await applyCodeCoverageToAllEditors(profilePath, fixtureSourcePath);
+
+		const stub = mergeProfiles();
+		try {
+			// Insert a line in the block, which makes it stale.
+			const document = await vscode.workspace.openTextDocument(file);
+			const range = new vscode.Range(3, 1, 3, 1);
+			updateCodeCoverageOnFileChange({
+				document,
+				contentChanges: [
+					{ range, text: '\n\tz := 1', rangeOffset: document.offsetAt(range.start), rangeLength: 0 }
+				],
+				reason: undefined
+			});
+			assert.strictEqual(coverageFilesForTest()[file].staleOptions.length, 1);
+
+			await applyCodeCoverageToAllEditors(profilePath, fixtureSourcePath);
+			assert.deepStrictEqual(coverageBlocksForTest().get(file), [
+				{ startLine: 3, startCol: 13, endLine: 7, endCol: 2, numStmt: 3, count: 2 }
+			]);
+			assert.strictEqual(coverageFilesForTest()[file].staleOptions.length, 0);
+			assert.strictEqual(coverageFilesForTest()[file].coveredOptions.length, 1);
+		} finally {
+			stub.restore();
+		}
+	});
+
+	test('replace coverage when merging the same profile', async () => {
+		const a = path.join(fixtureSourcePath, 'a', 'a.go');
+		const b = path.join(fixtureSourcePath, 'b', 'b.go');
+		const aPath = getTempFilePath('a.out');
+		const bPath = getTempFilePath('b.out');
+		fs.writeFileSync(aPath, `mode: count\n${a}:3.10,5.2 1 2\n`);
+		fs.writeFileSync(bPath, `mode: count\n${b}:3.10,5.2 1 1\n`);
+		const counts = () =>
+			[a, b].map((file) =>
+				coverageBlocksForTest()
+					.get(file)
+					?.map((x) => x.count)
+			);
+		await applyCodeCoverageToAllEditors(aPath, fixtureSourcePath);
+
+		const stub = mergeProfiles();
+		try {
+			await applyCodeCoverageToAllEditors(bPath, fixtureSourcePath);
+			assert.deepStrictEqual(counts(), [[2], [1]]);
+			await applyCodeCoverageToAllEditors(aPath, fixtureSourcePath);
+			assert.deepStrictEqual(counts(), [[2], [1]]);
+		} finally {
+			stub.restore();
+		}
+	});
+
+	test('check thresholds', async () => {
+		const a = path.join(fixtureSourcePath, 'a', 'a.go');
+		const b = path.join(fixtureSourcePath, 'b', 'b.go');
+		const profile: CoverProfile = {
+			mode: 'set',
+			blocks: new Map([
+				[a, [{ startLine: 3, startCol: 10, endLine: 5, endCol: 2, numStmt: 3, count: 1 }]],
+				[
+					b,
+					[
+						{ startLine: 3, startCol: 10, endLine: 5, endCol: 2, numStmt: 1, count: 1 },
+						{ startLine: 7, startCol: 10, endLine: 9, endCol: 2, numStmt: 1, count: 0 }
+					]
+				]
+			])
+		};
+		const mod = 'github.com/microsoft/vscode-go/gofixtures/coveragetest';
+		const violations = async (thresholds: { global?: number; packages?: { [glob: string]: number } }) =>
+			(await findCoverageViolations(profile, thresholds)).map(
+				(v) => `${v.importPath} ${v.percent} < ${v.threshold}`
+			);
+
+		assert.deepStrictEqual(await violations({}), []);
+		assert.deepStrictEqual(await violations({ global: 60 }), [`${mod}/b 50 < 60`]);
+		assert.deepStrictEqual(await violations({ global: 60, packages: { [`${mod}/b`]: 50 } }), []);
+		assert.deepStrictEqual(await violations({ packages: { '**/a': 100, '*/b': 100 } }), []);
+		assert.deepStrictEqual(await violations({ packages: { 'github.com/*/*/*/coveragetest/*': 100 } }), [
+			`${mod}/b 50 < 100`
+		]);
+	});
 });
@@ -8,6 +8,9 @@ import path = require('path');
 import {
 	CancellationToken,
 	EndOfLine,
+	Event,
+	EventEmitter,
+	FileCoverage,
 	FileType,
 	MarkdownString,
 	Position,
@@ -113,6 +116,8 @@ class MockTestRunProfile implements TestRunProfile {
 		public isDefault: boolean
 	) {}
 	tag: TestTag | undefined;
+	supportsContinuousRun = false;
+	onDidChangeDefault: Event<boolean> = new EventEmitter<boolean>().event;
 
 	configureHandler(): void {}
 	dispose(): void {}
@@ -133,7 +138,9 @@ class MockTestRun implements TestRun {
 	errored(test: TestItem, message: TestMessage | readonly TestMessage[], duration?: number): void {}
 	passed(test: TestItem, duration?: number): void {}
 	appendOutput(output: string): void {}
+	addCoverage(fileCoverage: FileCoverage): void {}
 	end(): void {}
+	onDidDispose: Event<void> = new EventEmitter<void>().event;
 }
 
 export class MockTestController implements TestController {
@@ -161,6 +168,8 @@ export class MockTestController implements TestController {
 		return new MockTestItem(id, label, uri, this);
 	}
 
+	invalidateTestResults(items?: TestItem | readonly TestItem[]): void {}
+
 	dispose(): void {}
 }
 
@@ -299,16 +308,18 @@ class MockTestDocument implements TextDocument {
 	}
 
 	offsetAt(position: Position): number {
-		throw new Error('Method not implemented.');
+		const lines = this._contents.split('\n').slice(0, position.line);
+		return lines.reduce((n, l) => n + l.length + 1, 0) + position.character;
 	}
 
 	positionAt(offset: number): Position {
-		throw new Error('Method not implemented.');
+		const lines = this._contents.substring(0, offset).split('\n');
+		return new Position(lines.length - 1, lines[lines.length - 1].length);
 	}
 
 	getText(range?: Range): string {
 		if (range) {
-			throw new Error('Method not implemented.');
+			return this._contents.substring(this.offsetAt(range.start), this.offsetAt(range.end));
 		}
 		return this._contents;
 	}
@@ -0,0 +1,84 @@
+/*---------------------------------------------------------
+ * Copyright 2024 The Go Authors. All rights reserved.
+ * Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------*/
+
+import assert from 'assert';
+import { parseAssertionDiffs } from '../../src/utils/assertionDiff';
+
+// lines splits the output of a test into the lines of its output events.
+function lines(output: string): string[] {
+	return output.split(/(?<=\n)/);
+}
+
+suite('Assertion Diff Parser Tests', () => {
+	test('parses testify failures', () => {
+		const output = lines(
+			'=== RUN   TestFoo\n' +
+				'    foo_test.go:12: \n' +
+				'        \tError Trace:\t/src/proj/foo_test.go:12\n' +
+				'        \t            \t/src/proj/helper_test.go:40\n' +
+				'        \tError:      \tNot equal: \n' +
+				'        \t            \texpected: "a\\nb"\n' +
+				'        \t            \tactual  : "a\\nc"\n' +
+				'        \t            \t\n' +
+				'        \t            \tDiff:\n' +
+				'        \t            \t--- Expected\n' +
+				'        \t            \t+++ Actual\n' +
+				'        \tTest:       \tTestFoo\n' +
+				'        \tMessages:   \tfoo of 1\n' +
+				'--- FAIL: TestFoo (0.00s)\n'
+		);
+		assert.deepStrictEqual(parseAssertionDiffs(output), [
+			{
+				start: 1,
+				end: 13,
+				message: 'Not equal:\nfoo of 1',
+				expected: 'a\nb',
+				actual: 'a\nc',
+				file: '/src/proj/foo_test.go',
+				line: 12
+			}
+		]);
+	});
+
+	test('ignores testify failures without values', () => {
+		const output = lines(
+			'    foo_test.go:12: \n' +
+				'        \tError Trace:\t/src/proj/foo_test.go:12\n' +
+				'        \tError:      \t"abc" does not contain "d"\n' +
+				'        \tTest:       \tTestFoo\n'
+		);
+		assert.deepStrictEqual(parseAssertionDiffs(output), []);
+	});
+
+	test('parses go-cmp diffs', () => {
+		const output = lines(
+			'    foo_test.go:20: Foo() mismatch (-want +got):\n' +
+				'          main.T{\n' +
+				'          \tA: 1,\n' +
+				'        - \tB: 2,\n' +
+				'        + \tB: 3,\n' +
+				'          }\n' +
+				'    foo_test.go:21: unrelated\n'
+		);
+		assert.deepStrictEqual(parseAssertionDiffs(output), [
+			{
+				start: 0,
+				end: 6,
+				message: 'Foo() mismatch (-want +got):',
+				expected: 'main.T{\n\tA: 1,\n\tB: 2,\n}',
+				actual: 'main.T{\n\tA: 1,\n\tB: 3,\n}',
+				file: 'foo_test.go',
+				line: 20
+			}
+		]);
+	});
+
+	test('parses go-cmp diffs of got and want', () => {
+		const output = lines('    foo_test.go:20: (-got +want)\n' + '        - 1\n' + '        + 2\n');
+		const [diff] = parseAssertionDiffs(output);
+		assert.strictEqual(diff.expected, '2');
+		assert.strictEqual(diff.actual, '1');
+	});
+});
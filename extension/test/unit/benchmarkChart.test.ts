@@ -0,0 +1,30 @@
+/*---------------------------------------------------------
+ * Copyright 2024 The Go Authors. All rights reserved.
+ * Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------*/
+
+import assert from 'assert';
+import { renderTrendChart } from '../../src/utils/benchmarkChart';
+
+suite('Benchmark Chart Tests', () => {
+	test('renders a point per run and marks commits', () => {
+		const svg = renderTrendChart('ns/op', [
+			{ commit: 'abc1234', description: 'run 1', samples: [10, 12] },
+			{ commit: 'abc1234', description: 'run 2', samples: [11] },
+			{ commit: 'def5678*', description: 'run <3>', samples: [20, 22] }
+		]);
+		assert.strictEqual(svg.match(/<circle /g)?.length, 3);
+		assert.strictEqual(svg.match(/<line class="range"/g)?.length, 2);
+		assert.deepStrictEqual(
+			svg.match(/<text class="commit"[^>]*>[^<]*/g)?.map((x) => x.replace(/^.*>/, '')),
+			['abc1234', 'def5678*']
+		);
+		assert(svg.includes('<title>run &lt;3&gt;\n21 ns/op (n=2)</title>'), svg);
+	});
+
+	test('renders a single run', () => {
+		const svg = renderTrendChart('B/op', [{ description: 'run', samples: [64] }]);
+		assert(svg.includes('<circle class="point" cx="385.0"'), svg);
+		assert(!svg.includes('NaN'), svg);
+	});
+});
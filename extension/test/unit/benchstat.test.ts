@@ -0,0 +1,87 @@
+/*---------------------------------------------------------
+ * Copyright 2024 The Go Authors. All rights reserved.
+ * Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------*/
+
+import assert from 'assert';
+import {
+	compareBenchmarks,
+	formatComparisons,
+	formatMetrics,
+	parseBenchmarkResult,
+	summarize,
+	welchTTest
+} from '../../src/utils/benchstat';
+
+suite('Benchmark Statistics Tests', () => {
+	test('parses benchmark results', () => {
+		const tt = [
+			{
+				result: '  123456\t   123.4 ns/op\t  64 B/op\t  2 allocs/op',
+				want: { 'ns/op': 123.4, 'B/op': 64, 'allocs/op': 2 }
+			},
+			{ result: '1000000000\t0.2500 ns/op\t4.00 MB/s', want: { 'ns/op': 0.25, 'MB/s': 4 } },
+			{ result: 'some output', want: undefined },
+			{ result: '10 fast ns/op', want: undefined }
+		];
+		for (const { result, want } of tt) {
+			assert.deepStrictEqual(parseBenchmarkResult(result), want, result);
+		}
+	});
+
+	test('formats the mean of each unit', () => {
+		assert.strictEqual(
+			formatMetrics({ 'MB/s': [4], 'allocs/op': [2, 2], 'ns/op': [123.4, 123.6], 'B/s': [], 'B/op': [64] }),
+			'123.5 ns/op  64 B/op  2 allocs/op  4 MB/s'
+		);
+	});
+
+	test("computes the p-value of Welch's t-test", () => {
+		// t = -2 with 8 degrees of freedom.
+		const p = welchTTest(summarize([1, 2, 3, 4, 5]), summarize([3, 4, 5, 6, 7]));
+		assert(Math.abs(p! - 0.0805) < 1e-4, `p = ${p}`);
+		assert.strictEqual(welchTTest(summarize([1]), summarize([2, 3])), undefined);
+		assert.strictEqual(welchTTest(summarize([1, 1]), summarize([1, 1])), 1);
+	});
+
+	test('compares benchmarks', () => {
+		const comparisons = compareBenchmarks(
+			{
+				'pkg.BenchmarkA': { 'ns/op': [100, 101, 99, 100, 102] },
+				'pkg.BenchmarkB': { 'ns/op': [5, 5.1] },
+				'pkg.BenchmarkC': { 'ns/op': [1] }
+			},
+			{
+				'pkg.BenchmarkA': { 'ns/op': [90, 91, 89, 90, 90] },
+				'pkg.BenchmarkB': { 'ns/op': [5.05, 5] }
+			}
+		);
+		assert.deepStrictEqual(
+			comparisons.map((x) => [x.name, x.significant]),
+			[
+				['pkg.BenchmarkA', true],
+				['pkg.BenchmarkB', false]
+			]
+		);
+		assert.strictEqual(
+			formatComparisons(comparisons, 'base', 'head'),
+			[
+				'| ns/op | base | head | delta |',
+				'| --- | ---: | ---: | --- |',
+				'| pkg.BenchmarkA | 100.4 ± 1% | 90 ± 1% | -10.36% (p=0.000 n=5+5) |',
+				'| pkg.BenchmarkB | 5.05 ± 1% | 5.025 ± 1% | ~ (p=0.712 n=2+2) |'
+			].join('\n')
+		);
+	});
+
+	test('formatComparisons escapes pipes in names', () => {
+		const comparisons = compareBenchmarks(
+			{ 'pkg.BenchmarkA/a|b': { 'ns/op': [100, 100] } },
+			{ 'pkg.BenchmarkA/a|b': { 'ns/op': [100, 100] } }
+		);
+		assert.strictEqual(
+			formatComparisons(comparisons, 'base', 'head').split('\n')[2],
+			'| pkg.BenchmarkA/a\\|b | 100 ± 0% | 100 ± 0% | ~ (p=1.000 n=2+2) |'
+		);
+	});
+});
@@ -0,0 +1,167 @@
+/*---------------------------------------------------------
+ * Copyright 2024 The Go Authors. All rights reserved.
+ * Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------*/
+
+import assert from 'assert';
+import fs = require('fs');
+import os = require('os');
+import path = require('path');
+import { CoverageBlock, parseCoverProfile, parseCoverProfileLine } from '../../src/utils/coverProfile';
+
+suite('Cover Profile Parser Tests', () => {
+	let tmpDir: string;
+
+	suiteSetup(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'coverprofile'));
+	});
+
+	suiteTeardown(() => {
+		fs.readdirSync(tmpDir).forEach((f) => fs.unlinkSync(path.join(tmpDir, f)));
+		fs.rmdirSync(tmpDir);
+	});
+
+	test('parses lines', () => {
+		const tt = [
+			{
+				line: 'example.com/a/a.go:19.71,22.25 3 1',
+				want: {
+					fileName: 'example.com/a/a.go',
+					block: { startLine: 19, startCol: 71, endLine: 22, endCol: 25, numStmt: 3, count: 1 }
+				}
+			},
+			{
+				line: 'C:\\work\\a.go:1.2,3.4 5 67\r',
+				want: {
+					fileName: 'C:\\work\\a.go',
+					block: { startLine: 1, startCol: 2, endLine: 3, endCol: 4, numStmt: 5, count: 67 }
+				}
+			},
+			{ line: 'mode: set', want: undefined },
+			{ line: '', want: undefined },
+			{ line: 'b.go:98992.0,98993.0 -2 1', want: undefined },
+			{ line: 'b.go:1.2,3.4 5', want: undefined },
+			{ line: ':1.2,3.4 5 6', want: undefined },
+			{ line: 'b.go:1.2,3.x 5 6', want: undefined }
+		];
+		for (const { line, want } of tt) {
+			assert.deepStrictEqual(parseCoverProfileLine(line), want, line);
+		}
+	});
+
+	test('parses profiles', async () => {
+		const file = path.join(tmpDir, 'cover.out');
+		fs.writeFileSync(file, 'mode: count\na.go:1.2,3.4 1 2\nb.go:5.6,7.8 2 0\na.go:9.1,9.5 1 1');
+		const fractions: number[] = [];
+		const { mode, blocks } = await parseCoverProfile(file, (f) => fractions.push(f));
+		assert.strictEqual(mode, 'count');
+		assert.deepStrictEqual(
+			[...blocks.entries()].map(([f, b]) => [f, b.map((x) => x.startLine)]),
+			[
+				['a.go', [1, 9]],
+				['b.go', [5]]
+			]
+		);
+		assert.deepStrictEqual(fractions, [1]);
+	});
+});
+
+// The benchmarks compare the line parser with the regular expression that was
+// used before, and measure reading a whole profile, which is large enough to be
+// read in more than one chunk. By default they only check the results on a
+// small profile; set GO_COVER_BENCHMARKS=1 to run them on a large profile and
+// print the throughput.
+suite('Cover Profile Parser Benchmarks', function () {
+	this.timeout(60000);
+
+	const benchmark = !!process.env['GO_COVER_BENCHMARKS'];
+	const numLines = benchmark ? 300000 : 20000;
+	let tmpDir: string;
+	let file: string;
+	let lines: string[];
+	let size: number;
+
+	suiteSetup(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'coverprofile'));
+		file = path.join(tmpDir, 'cover.out');
+		lines = ['mode: atomic'];
+		for (let i = 0; i < numLines; i++) {
+			const line = (i % 1000) + 1;
+			lines.push(
+				`github.com/example/monorepo/pkg${i % 97}/file${i % 13}.go:${line}.12,${line + 3}.2 ${i % 7} ${i}`
+			);
+		}
+		fs.writeFileSync(file, lines.join('\n') + '\n');
+		size = fs.statSync(file).size;
+	});
+
+	suiteTeardown(() => {
+		fs.readdirSync(tmpDir).forEach((f) => fs.unlinkSync(path.join(tmpDir, f)));
+		fs.rmdirSync(tmpDir);
+	});
+
+	test('parseCoverProfileLine and a regular expression', () => {
+		const parser = measure(() => lines.filter((line) => parseCoverProfileLine(line)).length);
+		const regexp = measure(() => lines.filter((line) => parseWithRegExp(line)).length);
+		report('parseCoverProfileLine', parser);
+		report('regular expression', regexp);
+	});
+
+	// Returns the shortest time of several runs of parse, after a first run
+	// that lets the JIT compile it.
+	function measure(parse: () => number): number {
+		assert.strictEqual(parse(), numLines);
+		let best = Infinity;
+		for (let i = 0; benchmark && i < 3; i++) {
+			const start = Date.now();
+			parse();
+			best = Math.min(best, Date.now() - start);
+		}
+		return best;
+	}
+
+	// Prints the throughput of a benchmark, when the benchmarks are run on
+	// purpose.
+	function report(name: string, ms: number) {
+		if (benchmark) {
+			console.log(`\t${name}: ${formatThroughput(size, ms)}`);
+		}
+	}
+
+	test('parseCoverProfile', async () => {
+		const start = Date.now();
+		let progressCalls = 0;
+		const { blocks } = await parseCoverProfile(file, () => progressCalls++);
+		const elapsed = Date.now() - start;
+		let n = 0;
+		blocks.forEach((b) => (n += b.length));
+		assert.strictEqual(n, numLines);
+		assert(progressCalls > 1, `expected the profile to be read in chunks, got ${progressCalls}`);
+		report('parseCoverProfile', elapsed);
+	});
+});
+
+// The parser that was used before parseCoverProfileLine.
+function parseWithRegExp(line: string): { fileName: string; block: CoverageBlock } | undefined {
+	// eslint-disable-next-line no-useless-escape
+	const parse = line.match(/^(\S+)\:(\d+)\.(\d+)\,(\d+)\.(\d+)\s(\d+)\s(\d+)/);
+	if (!parse) {
+		return;
+	}
+	return {
+		fileName: parse[1],
+		block: {
+			startLine: parseInt(parse[2], 10),
+			startCol: parseInt(parse[3], 10),
+			endLine: parseInt(parse[4], 10),
+			endCol: parseInt(parse[5], 10),
+			numStmt: parseInt(parse[6], 10),
+			count: parseInt(parse[7], 10)
+		}
+	};
+}
+
+function formatThroughput(bytes: number, ms: number): string {
+	const mb = bytes / (1 << 20);
+	return `${mb.toFixed(1)} MB in ${ms} ms (${((mb * 1000) / Math.max(ms, 1)).toFixed(1)} MB/s)`;
+}
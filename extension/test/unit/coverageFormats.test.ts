@@ -0,0 +1,79 @@
+/*---------------------------------------------------------
+ * Copyright 2024 The Go Authors. All rights reserved.
+ * Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------*/
+
+import assert from 'assert';
+import path = require('path');
+import { toCobertura, toLcov } from '../../src/utils/coverageFormats';
+import { CoverProfile } from '../../src/utils/coverProfile';
+
+suite('Coverage Export Tests', () => {
+	const root = path.resolve('/work');
+	const profile: CoverProfile = {
+		mode: 'count',
+		blocks: new Map([
+			[
+				path.join(root, 'b', 'b.go'),
+				[
+					{ startLine: 3, startCol: 10, endLine: 5, endCol: 2, numStmt: 2, count: 4 },
+					{ startLine: 5, startCol: 2, endLine: 6, endCol: 3, numStmt: 1, count: 0 }
+				]
+			],
+			[path.join(root, 'a.go'), [{ startLine: 1, startCol: 1, endLine: 1, endCol: 10, numStmt: 1, count: 0 }]]
+		])
+	};
+
+	test('LCOV', () => {
+		assert.strictEqual(
+			toLcov(profile, root),
+			[
+				'TN:',
+				'SF:a.go',
+				'DA:1,0',
+				'LF:1',
+				'LH:0',
+				'end_of_record',
+				'TN:',
+				'SF:b/b.go',
+				'DA:3,4',
+				'DA:4,4',
+				'DA:5,4',
+				'DA:6,0',
+				'LF:4',
+				'LH:3',
+				'end_of_record',
+				''
+			].join('\n')
+		);
+	});
+
+	test('LCOV with absolute paths', () => {
+		const sourceFiles = toLcov(profile)
+			.split('\n')
+			.filter((l) => l.startsWith('SF:'));
+		assert.deepStrictEqual(sourceFiles, [
+			`SF:${path.join(root, 'a.go').split(path.sep).join('/')}`,
+			`SF:${path.join(root, 'b', 'b.go').split(path.sep).join('/')}`
+		]);
+	});
+
+	test('Cobertura', () => {
+		const xml = toCobertura(profile, root, 1234);
+		assert(
+			xml.includes(
+				'<coverage line-rate="0.6000" branch-rate="0" lines-covered="3" lines-valid="5" ' +
+					'branches-covered="0" branches-valid="0" complexity="0" version="" timestamp="1234">'
+			),
+			xml
+		);
+		assert(xml.includes(`<source>${root}</source>`), xml);
+		assert(xml.includes('<package name="." line-rate="0.0000" branch-rate="0" complexity="0">'), xml);
+		assert(xml.includes('<package name="b" line-rate="0.7500" branch-rate="0" complexity="0">'), xml);
+		assert(
+			xml.includes('<class name="b.go" filename="b/b.go" line-rate="0.7500" branch-rate="0" complexity="0">'),
+			xml
+		);
+		assert(xml.includes('<line number="6" hits="0"/>'), xml);
+	});
+});
@@ -0,0 +1,62 @@
+/*---------------------------------------------------------
+ * Copyright 2024 The Go Authors. All rights reserved.
+ * Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------*/
+
+import assert from 'assert';
+import { affectedTestPackages, parseGoListJSON, testDependencyDirs } from '../../src/utils/goList';
+
+suite('go list Tests', () => {
+	test('parses the output of go list -json', () => {
+		const output =
+			'{\n\t"Dir": "/src/a",\n\t"ImportPath": "example.com/a",\n\t"Module": {\n\t\t"Path": "example.com"\n\t}\n}\n' +
+			'{\n\t"ImportPath": "example.com/a.test",\n\t"Deps": [\n\t\t"example.com/a [example.com/a.test]"\n\t]\n}\n';
+		assert.deepStrictEqual(parseGoListJSON(output), [
+			{ Dir: '/src/a', ImportPath: 'example.com/a', Module: { Path: 'example.com' } },
+			{ ImportPath: 'example.com/a.test', Deps: ['example.com/a [example.com/a.test]'] }
+		]);
+	});
+
+	test('finds the packages whose tests depend on changed packages', () => {
+		// b imports a, and the external tests of c import b. d has no tests.
+		const packages = [
+			{ ImportPath: 'example.com/a', Dir: '/src/a' },
+			{ ImportPath: 'example.com/b', Dir: '/src/b', Deps: ['example.com/a'] },
+			{ ImportPath: 'example.com/b [example.com/b.test]', Dir: '/src/b', Deps: ['example.com/a'] },
+			{ ImportPath: 'example.com/b.test', Deps: ['example.com/a', 'example.com/b [example.com/b.test]'] },
+			{ ImportPath: 'example.com/c', Dir: '/src/c' },
+			{ ImportPath: 'example.com/c_test [example.com/c.test]', Dir: '/src/c', Deps: ['example.com/b'] },
+			{ ImportPath: 'example.com/c.test', Deps: ['example.com/a', 'example.com/b', 'example.com/c_test'] },
+			{ ImportPath: 'example.com/d', Dir: '/src/d', Deps: ['example.com/a'] }
+		];
+		const tt = [
+			{ changed: ['/src/a'], want: ['/src/b', '/src/c'] },
+			{ changed: ['/src/b'], want: ['/src/b', '/src/c'] },
+			{ changed: ['/src/c'], want: ['/src/c'] },
+			{ changed: ['/src/d'], want: [] },
+			{ changed: ['/src/other'], want: [] }
+		];
+		for (const { changed, want } of tt) {
+			assert.deepStrictEqual(affectedTestPackages(packages, changed), want, changed.join(', '));
+		}
+	});
+
+	test('finds the directories that the tests of packages depend on', () => {
+		const packages = [
+			{ ImportPath: 'fmt', Dir: '/goroot/src/fmt', Standard: true },
+			{ ImportPath: 'example.com/a', Dir: '/src/a', Deps: ['fmt'] },
+			{ ImportPath: 'example.com/b', Dir: '/src/b', Deps: ['example.com/a', 'fmt'] },
+			{ ImportPath: 'example.com/b [example.com/b.test]', Dir: '/src/b', Deps: ['example.com/a', 'fmt'] },
+			{ ImportPath: 'example.com/b.test', Deps: ['example.com/a', 'example.com/b [example.com/b.test]', 'fmt'] },
+			{ ImportPath: 'example.com/c', Dir: '/src/c' },
+			{ ImportPath: 'example.com/c.test', Deps: ['example.com/c [example.com/c.test]'] }
+		];
+		assert.deepStrictEqual(
+			[...testDependencyDirs(packages)],
+			[
+				['/src/b', ['/src/a', '/src/b']],
+				['/src/c', ['/src/c']]
+			]
+		);
+	});
+});
@@ -4,7 +4,7 @@
  *--------------------------------------------------------*/
 
 import assert from 'assert';
-import { Mutex } from '../../src/utils/mutex';
+import { Mutex, Semaphore } from '../../src/utils/mutex';
 
 suite('Mutex Tests', () => {
 	test('works for basic concurrent access', async () => {
@@ -57,6 +57,32 @@ suite('Mutex Tests', () => {
 	});
 });
 
+suite('Semaphore Tests', () => {
+	test('limits the number of concurrent holders', async () => {
+		const s = new Semaphore(3);
+
+		let holders = 0;
+		let maxHolders = 0;
+		const order: number[] = [];
+		const worker = async (id: number, delay: number) => {
+			const unlock = await s.lock();
+			try {
+				order.push(id);
+				holders++;
+				maxHolders = Math.max(maxHolders, holders);
+				await sleep(delay);
+				holders--;
+			} finally {
+				unlock();
+			}
+		};
+
+		await Promise.all([worker(0, 5), worker(1, 1), worker(2, 3), worker(3, 0), worker(4, 2), worker(5, 1)]);
+		assert.strictEqual(maxHolders, 3);
+		assert.deepStrictEqual(order, [0, 1, 2, 3, 4, 5]);
+	});
+});
+
 function sleep(ms: number) {
 	return new Promise((resolve) => setTimeout(resolve, ms));
 }
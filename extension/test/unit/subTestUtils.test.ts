@@ -4,7 +4,7 @@
  *--------------------------------------------------------*/
 
 import assert from 'assert';
-import { escapeSubTestName } from '../../src/subTestUtils';
+import { escapeSubTestName, findTableTestCases, groupTestNames, testNamesPattern } from '../../src/subTestUtils';
 
 suite('escapeSubTestName Tests', () => {
 	test('correctly escapes sub tests', () => {
@@ -32,3 +32,132 @@ suite('escapeSubTestName Tests', () => {
 		}
 	});
 });
+
+suite('testNamesPattern Tests', () => {
+	test('selects exactly the given tests', () => {
+		const tt = [
+			{ names: ['TestA'], want: '^TestA$' },
+			{ names: ['TestA', 'TestB'], want: '^(TestA|TestB)$' },
+			{ names: ['TestA/X'], want: '^TestA$/^X$' },
+			{ names: ['TestA/X', 'TestA/Y\\|Z'], want: '^TestA$/^(X|Y\\|Z)$' },
+			{ names: ['TestA/X', 'TestA/Y', 'TestB/X', 'TestB/Y'], want: '^(TestA|TestB)$/^(X|Y)$' },
+			{ names: ['TestA/X', 'TestB/Y'], want: undefined },
+			{ names: ['TestA', 'TestB/X'], want: undefined },
+			{ names: [], want: undefined }
+		];
+
+		for (const tc of tt) {
+			assert.strictEqual(testNamesPattern(tc.names), tc.want, tc.names.join(', '));
+		}
+	});
+
+	test('groups tests that cannot be selected together', () => {
+		const tt = [
+			{ names: ['TestA', 'TestB'], want: [['TestA', 'TestB']] },
+			{ names: ['TestA/X', 'TestB/X'], want: [['TestA/X', 'TestB/X']] },
+			{
+				names: ['TestA/X', 'TestC', 'TestA/Y', 'TestB/Z', 'TestD'],
+				want: [['TestA/X', 'TestA/Y'], ['TestC', 'TestD'], ['TestB/Z']]
+			}
+		];
+
+		for (const tc of tt) {
+			const got = groupTestNames(tc.names);
+			assert.deepStrictEqual(got, tc.want, tc.names.join(', '));
+			got.forEach((g) => assert(testNamesPattern(g), g.join(', ')));
+		}
+	});
+});
+
+suite('findTableTestCases Tests', () => {
+	// Returns the names of the cases, and checks that the range of each case
+	// starts at its entry.
+	function names(source: string): string[] {
+		return findTableTestCases(source).map(({ name, start, end }) => {
+			assert(/^["`{&]/.test(source.substring(start, end)), source.substring(start, end));
+			return name;
+		});
+	}
+
+	test('finds cases of a slice of structs', () => {
+		const source = `func TestFoo(t *testing.T) {
+	tests := []struct {
+		name string
+		in   int // the input, as in {"x"}
+	}{
+		{name: "one", in: 1},
+		{
+			in:   2,
+			name: "two words",
+		},
+		{name: "one"},
+		{name: fmt.Sprint(3)},
+		{name: "a/b"},
+		{in: 4},
+	}
+	for _, tt := range tests {
+		t.Run(tt.name, func(t *testing.T) {})
+	}
+}`;
+		assert.deepStrictEqual(names(source), ['one', 'two_words', 'one#01']);
+	});
+
+	test('finds cases in order of the fields', () => {
+		const source = `func TestFoo(t *testing.T) {
+	for _, tc := range cases {}
+	cases := []struct{ in, name string }{{"1", "one"}, {"{", "two"}}
+	for _, tc := range cases {
+		t.Run(tc.name, func(t *testing.T) {})
+	}
+}`;
+		assert.deepStrictEqual(names(source), ['one', 'two']);
+	});
+
+	test('finds cases of a map', () => {
+		const source = `func TestFoo(t *testing.T) {
+	tests := map[string]struct{ in int }{
+		"one": {in: 1},
+		\`two\`: {in: 2},
+	}
+	for name, tt := range tests {
+		t.Run(name, func(t *testing.T) {})
+	}
+}`;
+		assert.deepStrictEqual(names(source), ['one', 'two']);
+	});
+
+	test('finds the cases of the nearest table in scope', () => {
+		const source = `func TestFoo(t *testing.T) {
+	tests := []struct{ name string }{{name: "one"}}
+	for _, tt := range tests {
+		t.Run(tt.name, func(t *testing.T) {})
+	}
+	t.Run("nested", func(t *testing.T) {
+		tests := []struct{ name string }{{name: "nested"}}
+		_ = tests
+	})
+	if true {
+		tests := map[string]int{"block": 1}
+		_ = tests
+	}
+	for _, tt := range tests {
+		t.Run(tt.name, func(t *testing.T) {})
+	}
+	tests = []struct{ name string }{{name: "two"}}
+	for _, tt := range tests {
+		t.Run(tt.name, func(t *testing.T) {})
+	}
+}`;
+		assert.deepStrictEqual(names(source), ['one', 'one', 'two']);
+	});
+
+	test('ignores loops that do not run subtests', () => {
+		const source = `func TestFoo(t *testing.T) {
+	tests := []struct{ name string }{{name: "one"}}
+	for _, tt := range tests {
+		t.Log(tt.name)
+	}
+}`;
+		assert.deepStrictEqual(names(source), []);
+	});
+});
@@ -0,0 +1,109 @@
+/*---------------------------------------------------------
+ * Copyright 2024 The Go Authors. All rights reserved.
+ * Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------*/
+
+import assert from 'assert';
+import { GoTestOutput } from '../../src/testUtils';
+import { TestOutputParser } from '../../src/utils/testOutputParser';
+
+// parse writes the chunks to a parser and returns the events, with the output
+// of each test joined, and whether there was any output.
+function parse(...chunks: string[]): { events: string[]; received: boolean } {
+	const events: GoTestOutput[] = [];
+	const parser = new TestOutputParser((e) => events.push(e));
+	chunks.forEach((x) => parser.write(x));
+	const received = parser.flush();
+
+	const summary: string[] = [];
+	for (const e of events) {
+		const last = summary[summary.length - 1];
+		if (e.Action === 'output' && last?.startsWith(`output ${e.Test}: `)) {
+			summary[summary.length - 1] = last + e.Output;
+		} else {
+			summary.push(e.Action === 'output' ? `output ${e.Test}: ${e.Output}` : `${e.Action} ${e.Test}`);
+		}
+	}
+	return { events: summary, received };
+}
+
+suite('Test Output Parser Tests', () => {
+	test('parses results from partial lines', () => {
+		const { events } = parse(
+			'=== RUN   TestA\n    a_test.go:5: he',
+			'llo\n--- PA',
+			'SS: TestA (0.00s)\r\n=== RUN   TestB\n--- FAIL: TestB (0.01s)\n=== RUN   TestC\n',
+			'    c_test.go:9: skipping\n--- SKIP: TestC (0.00s)\nFAIL\n'
+		);
+		assert.deepStrictEqual(events, [
+			'run TestA',
+			'output TestA:     a_test.go:5: hello\n',
+			'pass TestA',
+			'run TestB',
+			'fail TestB',
+			'run TestC',
+			'output TestC:     c_test.go:9: skipping\n',
+			'skip TestC',
+			'output TestC: FAIL\n'
+		]);
+	});
+
+	test('parses subtests and interleaved parallel tests', () => {
+		const { events } = parse(
+			'=== RUN   TestA\n' +
+				'=== RUN   TestA/one\n' +
+				'=== PAUSE TestA/one\n' +
+				'=== RUN   TestA/two\n' +
+				'=== PAUSE TestA/two\n' +
+				'=== CONT  TestA/one\n' +
+				'=== CONT  TestA/two\n' +
+				'    a_test.go:12: two failed\n' +
+				'=== NAME  TestA/one\n' +
+				'    a_test.go:10: one\n' +
+				'--- FAIL: TestA (0.00s)\n' +
+				'    --- PASS: TestA/one (0.00s)\n' +
+				'    --- FAIL: TestA/two (0.00s)\n'
+		);
+		assert.deepStrictEqual(events, [
+			'run TestA',
+			'run TestA/one',
+			'pause TestA/one',
+			'run TestA/two',
+			'pause TestA/two',
+			'cont TestA/one',
+			'cont TestA/two',
+			'output TestA/two:     a_test.go:12: two failed\n',
+			'output TestA/one:     a_test.go:10: one\n',
+			'fail TestA',
+			'pass TestA/one',
+			'fail TestA/two'
+		]);
+	});
+
+	test('parses a session that was stopped early', () => {
+		const { events, received } = parse('=== RUN   TestA\n    a_test.go:5: working', '\n=== RUN   TestB\npartial');
+		assert(received);
+		assert.deepStrictEqual(events, [
+			'run TestA',
+			'output TestA:     a_test.go:5: working\n',
+			'run TestB',
+			'output TestB: partial'
+		]);
+	});
+
+	test('reports that there was no output', () => {
+		assert.deepStrictEqual(parse(), { events: [], received: false });
+	});
+
+	test('passes events through and reports benchmarks', () => {
+		const { events } = parse(
+			'{"Action":"pass","Test":"TestA"}\n',
+			'BenchmarkFoo-8   \t 1000000\t      1234 ns/op\n'
+		);
+		assert.deepStrictEqual(events, [
+			'pass TestA',
+			'output BenchmarkFoo: BenchmarkFoo-8   \t 1000000\t      1234 ns/op\n',
+			'pass BenchmarkFoo'
+		]);
+	});
+});